@@ -1,52 +1,470 @@
-import { useCallback, useState } from 'react'
-import { GalaxyCanvas } from './components/GalaxyCanvas'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { CatalogFallback } from './components/CatalogFallback'
+import { CommandPalette } from './components/CommandPalette'
+import { GalaxyCanvas, type GalaxyCanvasHandle } from './components/GalaxyCanvas'
 import { OverlayUI } from './components/OverlayUI'
 import { PreviewModal } from './components/PreviewModal'
-import { sites } from './data/sites'
-import type { HoverState, SiteNode } from './types/navigation'
+import { SiteEditor, type EditorSelection } from './components/SiteEditor'
+import { SiteNavigator } from './components/SiteNavigator'
+import { TourBar } from './components/TourBar'
+import { listEnvironments, PRODUCTION_ENVIRONMENT_ID } from './data/environments'
+import { isLayoutMode } from './data/layouts'
+import { buildSites, DEFAULT_BASE_DOMAIN, siteTrail, visibleSites } from './data/sites'
+import { createSiteTour } from './data/tours'
+import { scopedStorageKey } from './data/workspaces'
+import { useIdle } from './hooks/useIdle'
+import { usePersistentState } from './hooks/usePersistentState'
+import { usePreviewWorkspace } from './hooks/usePreviewWorkspace'
+import { useSavedViewpoints } from './hooks/useSavedViewpoints'
+import { useSiteCatalog } from './hooks/useSiteCatalog'
+import { useSiteEditor } from './hooks/useSiteEditor'
+import { I18nContext, useLocale } from './hooks/useI18n'
+import { useSiteHealth } from './hooks/useSiteHealth'
+import { useSiteRoute } from './hooks/useSiteRoute'
+import { useSiteUsage } from './hooks/useSiteUsage'
+import { useTourPlayer } from './hooks/useTourPlayer'
+import { useWorkspaces } from './hooks/useWorkspaces'
+import { useTheme } from './hooks/useTheme'
+import { translateCategory } from './i18n/messages'
+import { isQualitySetting } from './scene/quality'
+import type { CameraShot, HoverState, SiteNode, Vec3 } from './types/navigation'
+
+const EMPTY_SITES: SiteNode[] = []
+const SCREENSAVER_DELAY_MS = 120_000
+
+const isEnvironmentId = (value: unknown): value is string => typeof value === 'string'
+
+// `?quality=low` pins a render preset and `?stats` shows the frame-time overlay, for tuning.
+const renderParams = new URLSearchParams(window.location.search)
+const qualityParam = renderParams.get('quality')
+const RENDER_QUALITY = isQualitySetting(qualityParam) ? qualityParam : 'auto'
+const SHOW_RENDER_STATS = renderParams.has('stats')
 
 function App() {
+  const i18n = useLocale()
+  const workspaces = useWorkspaces()
+  const { active: activeWorkspace, home: homeWorkspace, switchTo: switchWorkspace } = workspaces
+  const storageKey = (key: string) =>
+    activeWorkspace && homeWorkspace ? scopedStorageKey(key, activeWorkspace, homeWorkspace) : key
+  const catalog = useSiteCatalog(activeWorkspace?.manifestUrl ?? null)
+  const editor = useSiteEditor(
+    catalog.status === 'ready' ? catalog.manifest : null,
+    storageKey('site-edits'),
+  )
+  const { manifest, apply: applySiteEdit } = editor
+  const baseDomain = activeWorkspace?.baseDomain ?? DEFAULT_BASE_DOMAIN
+  const productionName = i18n.t('environment.productionName')
+  const environments = useMemo(
+    () => listEnvironments(manifest?.environments ?? [], baseDomain, productionName),
+    [baseDomain, manifest, productionName],
+  )
+  const [environmentId, setEnvironmentId] = usePersistentState(
+    storageKey('environment'),
+    PRODUCTION_ENVIRONMENT_ID,
+    isEnvironmentId,
+  )
+  // A stored id can outlive its manifest entry; production is always there to fall back on.
+  const environment =
+    environments.find((candidate) => candidate.id === environmentId) ?? environments[0]
+  const sites = useMemo(
+    () =>
+      manifest
+        ? buildSites(manifest.sites, {
+            environment,
+            tagEnvironment: environments.length > 1,
+            fallbackEnvironment: environments[0],
+            locale: i18n.locale,
+            caption: (site) => translateCategory(i18n.t, site.category),
+          })
+        : EMPTY_SITES,
+    [environment, environments, i18n.locale, i18n.t, manifest],
+  )
+  const destinations = useMemo(
+    () =>
+      workspaces.registry.status === 'ready'
+        ? workspaces.registry.workspaces
+            .filter((candidate) => candidate.id !== activeWorkspace?.id)
+            .map(({ id, name }) => ({ id, name }))
+        : [],
+    [activeWorkspace?.id, workspaces.registry],
+  )
   const [hoverState, setHoverState] = useState<HoverState>({
     site: null,
     x: 0,
     y: 0,
   })
-  const [focusSite, setFocusSite] = useState<SiteNode | null>(null)
-  const [previewSite, setPreviewSite] = useState<SiteNode | null>(null)
+  const health = useSiteHealth(sites)
+  const usage = useSiteUsage(sites, storageKey('usage'))
+  const { recordOpen } = usage
+  const [routeSiteId, navigate] = useSiteRoute()
+  const focusSite = useMemo(
+    () => sites.find((site) => site.id === routeSiteId) ?? null,
+    [sites, routeSiteId],
+  )
+  const breadcrumbs = useMemo(
+    () => (focusSite ? siteTrail(focusSite, new Map(sites.map((site) => [site.id, site]))) : []),
+    [focusSite, sites],
+  )
+  // Keyboard navigation only walks the nodes the scene is showing.
+  const navigableSites = useMemo(
+    () => visibleSites(sites, focusSite?.id ?? null),
+    [focusSite, sites],
+  )
+  const workspace = usePreviewWorkspace(sites, storageKey('workspace'))
+  const { openTab, activateTab, closeTab } = workspace
+  const [workspaceOpen, setWorkspaceOpen] = useState(false)
+  const [previewFocusId, setPreviewFocusId] = useState<string | null>(null)
+  const [searchMatches, setSearchMatches] = useState<Set<string> | null>(null)
+  const [keyboardHoverId, setKeyboardHoverId] = useState<string | null>(null)
+  const [previewCoversCanvas, setPreviewCoversCanvas] = useState(false)
+  const [editMode, setEditMode] = useState(false)
+  const [editorSelection, setEditorSelection] = useState<EditorSelection>(null)
+  // Read through refs so toggling edit mode or focus does not hand the canvas a new select callback.
+  const editModeRef = useRef(editMode)
+  const focusIdRef = useRef<string | null>(null)
+  const [layout, setLayout] = usePersistentState(
+    storageKey('layout'),
+    activeWorkspace?.layout ?? 'ring',
+    isLayoutMode,
+  )
+  const { theme, preference: themePreference, setPreference: setThemePreference } = useTheme()
+  const canvasRef = useRef<GalaxyCanvasHandle | null>(null)
+  const savedViewpoints = useSavedViewpoints(storageKey('viewpoints'))
+  const { save: saveViewpoint, remove: removeViewpoint } = savedViewpoints
+  const viewpoints = useMemo(
+    () => [...(manifest?.viewpoints ?? []), ...savedViewpoints.viewpoints],
+    [manifest, savedViewpoints.viewpoints],
+  )
+  const savedViewpointIds = useMemo(
+    () => new Set(savedViewpoints.viewpoints.map((viewpoint) => viewpoint.id)),
+    [savedViewpoints.viewpoints],
+  )
+  const [viewpointId, setViewpointId] = useState<string | null>(null)
+  const activeViewpoint = viewpoints.find((viewpoint) => viewpoint.id === viewpointId) ?? null
+  const siteTour = useMemo(() => createSiteTour(sites), [sites])
+  // Catalogs without tours of their own still get one through every site.
+  const tours = useMemo(
+    () =>
+      manifest && manifest.tours.length > 0
+        ? manifest.tours
+        : [{ ...siteTour, name: i18n.t('views.allSites') }],
+    [i18n, manifest, siteTour],
+  )
+  const screensaverTour = manifest?.tours.find((tour) => tour.screensaver) ?? siteTour
+  const tourPlayer = useTourPlayer(sites, viewpoints)
+  const { playback: tourPlayback, start: startTour, exit: exitTour } = tourPlayer
+  const idle = useIdle(SCREENSAVER_DELAY_MS)
+  const viewpointShot = useMemo<CameraShot | null>(
+    () => (activeViewpoint ? { kind: 'view', view: activeViewpoint } : null),
+    [activeViewpoint],
+  )
+  const cameraShot = tourPlayback?.stop.shot ?? viewpointShot
 
-  const handleNodeSelect = useCallback((site: SiteNode) => {
-    setFocusSite(site)
-  }, [])
+  const focusId = focusSite?.id ?? null
+  if (previewFocusId !== focusId) {
+    setPreviewFocusId(focusId)
+    if (!focusId || focusId !== workspace.activeSite?.id) {
+      setWorkspaceOpen(false)
+    }
+  }
 
-  const handleFocusComplete = useCallback((site: SiteNode) => {
-    setPreviewSite(site)
-  }, [])
+  useEffect(() => {
+    editModeRef.current = editMode
+  }, [editMode])
+
+  useEffect(() => {
+    focusIdRef.current = focusId
+  }, [focusId])
+
+  // The screensaver takes over an idle overview and hands it back on the first input;
+  // any tour ends once a site is opened or editing starts.
+  useEffect(() => {
+    if (tourPlayback && (focusSite || editMode || (tourPlayback.idle && !idle))) {
+      exitTour()
+    } else if (!tourPlayback && idle && !focusSite && !editMode && sites.length > 0) {
+      startTour(screensaverTour, { idle: true })
+    }
+  }, [editMode, exitTour, focusSite, idle, screensaverTour, sites.length, startTour, tourPlayback])
+
+  // Only a loaded catalog can say an id is unknown; a failed load keeps the link for Retry.
+  useEffect(() => {
+    if (catalog.status === 'ready' && routeSiteId && !focusSite) {
+      navigate(null, { replace: true })
+    }
+  }, [catalog.status, focusSite, navigate, routeSiteId])
+
+  const handleNodeSelect = useCallback(
+    (site: SiteNode) => {
+      if (editModeRef.current) {
+        setEditorSelection({ kind: 'site', id: site.id })
+        return
+      }
+      // A focused system stays in the scene with its children; picking it again opens its page.
+      if (focusIdRef.current === site.id) {
+        openTab(site.id)
+        setWorkspaceOpen(true)
+        return
+      }
+      if (site.embed === 'newtab') {
+        window.open(site.url, '_blank', 'noopener,noreferrer')
+        recordOpen(site.id)
+      }
+      navigate(site.id)
+    },
+    [navigate, openTab, recordOpen],
+  )
+
+  const handleNodeMove = useCallback(
+    (site: SiteNode, position: Vec3) => {
+      applySiteEdit({ kind: 'pin', id: site.id, position })
+    },
+    [applySiteEdit],
+  )
+
+  const handleEditModeChange = useCallback(
+    (enabled: boolean) => {
+      setEditMode(enabled)
+      setEditorSelection(null)
+      if (enabled) {
+        setWorkspaceOpen(false)
+        navigate(null)
+      }
+    },
+    [navigate],
+  )
+
+  const handleWorkspaceChange = useCallback(
+    (workspaceId: string) => {
+      setWorkspaceOpen(false)
+      setEditorSelection(null)
+      switchWorkspace(workspaceId)
+      navigate(null, { replace: true })
+    },
+    [navigate, switchWorkspace],
+  )
+
+  const handlePaletteSelect = useCallback(
+    (site: SiteNode) => {
+      if (focusSite?.id === site.id) {
+        openTab(site.id)
+        setWorkspaceOpen(true)
+        return
+      }
+      handleNodeSelect(site)
+    },
+    [focusSite, handleNodeSelect, openTab],
+  )
+
+  const handleFocusComplete = useCallback(
+    (site: SiteNode) => {
+      // Arriving at a system shows its children rather than its page.
+      if (site.childIds) {
+        return
+      }
+      openTab(site.id)
+      setWorkspaceOpen(true)
+      if (site.embed !== 'newtab') {
+        recordOpen(site.id)
+      }
+    },
+    [openTab, recordOpen],
+  )
+
+  const handleActivateTab = useCallback(
+    (siteId: string) => {
+      activateTab(siteId)
+      navigate(siteId)
+    },
+    [activateTab, navigate],
+  )
+
+  const handleCloseTab = useCallback(
+    (siteId: string) => {
+      const nextActive = closeTab(siteId)
+      if (nextActive) {
+        navigate(nextActive)
+        return
+      }
+      setWorkspaceOpen(false)
+      navigate(null)
+    },
+    [closeTab, navigate],
+  )
+
+  const handleReopenWorkspace = useCallback(() => {
+    if (workspace.activeSite) {
+      navigate(workspace.activeSite.id)
+    }
+  }, [navigate, workspace.activeSite])
 
   const handleHoverChange = useCallback((hover: HoverState) => {
     setHoverState(hover)
   }, [])
 
+  const focusParentId = focusSite?.parentId ?? null
   const handleClosePreview = useCallback(() => {
-    setPreviewSite(null)
-    setFocusSite(null)
-  }, [])
+    setWorkspaceOpen(false)
+    navigate(focusParentId)
+  }, [focusParentId, navigate])
+
+  const handleFocusCancel = useCallback(() => {
+    navigate(null)
+  }, [navigate])
+
+  const handleViewpointSelect = useCallback(
+    (nextViewpointId: string | null) => {
+      exitTour()
+      setViewpointId(nextViewpointId)
+      navigate(null)
+    },
+    [exitTour, navigate],
+  )
+
+  const handleViewpointSave = useCallback(
+    (name: string) => {
+      const view = canvasRef.current?.getCameraView()
+      if (view) {
+        setViewpointId(saveViewpoint(name, view))
+      }
+    },
+    [saveViewpoint],
+  )
+
+  const handleTourStart = useCallback(
+    (tourId: string) => {
+      const tour = tours.find((candidate) => candidate.id === tourId)
+      if (!tour) {
+        return
+      }
+      setWorkspaceOpen(false)
+      navigate(null)
+      startTour(tour)
+    },
+    [navigate, startTour, tours],
+  )
 
   return (
-    <main className="app-shell">
-      <GalaxyCanvas
-        sites={sites}
-        focusSite={focusSite}
-        onNodeSelect={handleNodeSelect}
-        onHoverChange={handleHoverChange}
-        onFocusComplete={handleFocusComplete}
-      />
-      <OverlayUI
-        hoveredSite={hoverState.site}
-        tooltipX={hoverState.x}
-        tooltipY={hoverState.y}
-      />
-      <PreviewModal site={previewSite} onClose={handleClosePreview} />
-    </main>
+    <I18nContext value={i18n}>
+      <main className="app-shell">
+        <GalaxyCanvas
+          ref={canvasRef}
+          sites={sites}
+          focusSite={focusSite}
+          cameraShot={cameraShot}
+          focusTransition={manifest?.focus}
+          layout={layout}
+          theme={theme}
+          highlightIds={searchMatches}
+          keyboardHoverId={keyboardHoverId}
+          health={health}
+          prominence={usage.prominence}
+          quality={RENDER_QUALITY}
+          paused={previewCoversCanvas}
+          showStats={SHOW_RENDER_STATS}
+          editMode={editMode}
+          galaxyId={activeWorkspace?.id}
+          destinations={destinations}
+          onNodeSelect={handleNodeSelect}
+          onHoverChange={handleHoverChange}
+          onFocusComplete={handleFocusComplete}
+          onFocusCancel={handleFocusCancel}
+          onNodeMove={handleNodeMove}
+          onDestinationSelect={handleWorkspaceChange}
+        />
+        <OverlayUI
+          hoveredSite={hoverState.site}
+          health={health}
+          tooltipX={hoverState.x}
+          tooltipY={hoverState.y}
+          layout={layout}
+          onLayoutChange={setLayout}
+          themePreference={themePreference}
+          onThemePreferenceChange={setThemePreference}
+          openTabCount={workspaceOpen ? 0 : workspace.tabs.length}
+          onReopenTabs={handleReopenWorkspace}
+          favoriteSites={usage.favoriteSites}
+          recentSites={usage.recentSites}
+          onSiteOpen={navigate}
+          onExportUsage={usage.exportData}
+          onResetUsage={usage.reset}
+          editMode={editMode}
+          onEditModeChange={handleEditModeChange}
+          workspaces={workspaces.registry.status === 'ready' ? workspaces.registry.workspaces : []}
+          activeWorkspaceId={activeWorkspace?.id ?? null}
+          onWorkspaceChange={handleWorkspaceChange}
+          environments={environments}
+          activeEnvironmentId={environment.id}
+          onEnvironmentChange={setEnvironmentId}
+          onLocaleChange={i18n.setLocale}
+          viewpoints={viewpoints}
+          savedViewpointIds={savedViewpointIds}
+          activeViewpointId={activeViewpoint?.id ?? null}
+          tours={tours}
+          onViewpointSelect={handleViewpointSelect}
+          onViewpointSave={handleViewpointSave}
+          onViewpointDelete={removeViewpoint}
+          onTourStart={handleTourStart}
+          breadcrumbs={breadcrumbs}
+          onBreadcrumbSelect={navigate}
+        />
+        {tourPlayback ? (
+          <TourBar
+            playback={tourPlayback}
+            onPrevious={tourPlayer.previous}
+            onNext={tourPlayer.next}
+            onTogglePause={tourPlayer.togglePause}
+            onExit={exitTour}
+          />
+        ) : null}
+        <SiteNavigator
+          sites={navigableSites}
+          onActiveChange={setKeyboardHoverId}
+          onSelect={handleNodeSelect}
+        />
+        <CommandPalette
+          sites={sites}
+          onSelect={handlePaletteSelect}
+          onMatchesChange={setSearchMatches}
+        />
+        {workspaces.registry.status === 'error' ? (
+          <CatalogFallback catalog={workspaces.registry} onRetry={workspaces.reload} />
+        ) : (
+          <CatalogFallback catalog={catalog} onRetry={catalog.reload} />
+        )}
+        {editMode && manifest ? (
+          <SiteEditor
+            manifest={manifest}
+            environment={environment}
+            showEnvironment={environments.length > 1}
+            selection={editorSelection}
+            hasLocalEdits={editor.hasLocalEdits}
+            canUndo={editor.canUndo}
+            canRedo={editor.canRedo}
+            onSelectionChange={setEditorSelection}
+            onEdit={applySiteEdit}
+            onUndo={editor.undo}
+            onRedo={editor.redo}
+            onExport={editor.exportManifest}
+            onDiscard={editor.discard}
+            onClose={() => handleEditModeChange(false)}
+          />
+        ) : null}
+        <PreviewModal
+          open={workspaceOpen}
+          tabs={workspace.tabs}
+          activeSite={workspace.activeSite}
+          panes={workspace.panes}
+          health={health}
+          onActivateTab={handleActivateTab}
+          onCloseTab={handleCloseTab}
+          onPaneCountChange={workspace.setPaneCount}
+          onClose={handleClosePreview}
+          onCoverChange={setPreviewCoversCanvas}
+          favoriteIds={usage.favoriteIds}
+          onToggleFavorite={usage.toggleFavorite}
+        />
+      </main>
+    </I18nContext>
   )
 }
 
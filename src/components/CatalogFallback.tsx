@@ -0,0 +1,49 @@
+import { useI18n } from '../hooks/useI18n'
+import type { SiteCatalogState } from '../hooks/useSiteCatalog'
+
+interface CatalogFallbackProps {
+  catalog: SiteCatalogState
+  onRetry: () => void
+}
+
+export function CatalogFallback({ catalog, onRetry }: CatalogFallbackProps) {
+  const { t } = useI18n()
+
+  if (catalog.status === 'ready') {
+    return null
+  }
+
+  if (catalog.status === 'loading') {
+    return (
+      <section className="catalog-fallback" role="status">
+        <div className="loader-ring" />
+        <p className="catalog-fallback-text">{t('catalog.loading')}</p>
+      </section>
+    )
+  }
+
+  return (
+    <section className="catalog-fallback is-error" role="alert">
+      <h2 className="catalog-fallback-title">{t('catalog.unavailable')}</h2>
+      <p className="catalog-fallback-text">{catalog.message}</p>
+      {catalog.issues.length > 0 ? (
+        <ul className="catalog-issues">
+          {catalog.issues.map((issue) => (
+            <li key={`${issue.index}:${issue.field}:${issue.message}`}>
+              <span className="catalog-issue-where">
+                {issue.index >= 0 ? `#${issue.index}` : ''}
+                {issue.id ? ` (${issue.id})` : ''}
+                {issue.index >= 0 || issue.id ? ' · ' : ''}
+                {issue.field}
+              </span>{' '}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <button type="button" className="catalog-retry" onClick={onRetry}>
+        {t('catalog.retry')}
+      </button>
+    </section>
+  )
+}
@@ -0,0 +1,241 @@
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type ReactNode,
+} from 'react'
+import { useI18n } from '../hooks/useI18n'
+import type { SiteNode } from '../types/navigation'
+import { searchSites, type SiteSearchResult } from '../utils/fuzzySearch'
+import { isTypingTarget } from '../utils/keyboard'
+
+interface CommandPaletteProps {
+  sites: SiteNode[]
+  onSelect: (site: SiteNode) => void
+  onMatchesChange: (matchIds: Set<string> | null) => void
+}
+
+const renderHighlighted = (text: string, indices: number[]) => {
+  if (indices.length === 0) {
+    return text
+  }
+  // Match indices are UTF-16 offsets, so the text is sliced by them rather than split into
+  // code points, which would shift every highlight after an emoji.
+  const parts: ReactNode[] = []
+  let cursor = 0
+  let run = 0
+  while (run < indices.length) {
+    let next = run + 1
+    while (next < indices.length && indices[next] === indices[next - 1] + 1) {
+      next += 1
+    }
+    const start = indices[run]
+    const end = indices[next - 1] + 1
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start))
+    }
+    parts.push(
+      <mark key={start} className="palette-mark">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+    run = next
+  }
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor))
+  }
+  return parts
+}
+
+function PaletteResult({
+  result,
+  active,
+  onPick,
+  onHover,
+}: {
+  result: SiteSearchResult
+  active: boolean
+  onPick: () => void
+  onHover: () => void
+}) {
+  const { site, field, indices } = result
+  const swatch = `#${site.color.toString(16).padStart(6, '0')}`
+
+  return (
+    <li
+      id={`palette-option-${site.id}`}
+      className={`palette-option ${active ? 'active' : ''}`}
+      role="option"
+      aria-selected={active}
+      onMouseDown={(event) => event.preventDefault()}
+      onClick={onPick}
+      onMouseMove={onHover}
+    >
+      <span className="palette-swatch" style={{ background: swatch }} />
+      <span className="palette-name">
+        {renderHighlighted(site.name, field === 'name' ? indices : [])}
+      </span>
+      <span className="palette-meta">
+        {field === 'id' ? renderHighlighted(site.id, indices) : site.id}
+        {' · '}
+        {field === 'category' ? renderHighlighted(site.category, indices) : site.category}
+      </span>
+      {site.description ? (
+        <span className="palette-description">
+          {renderHighlighted(site.description, field === 'description' ? indices : [])}
+        </span>
+      ) : null}
+    </li>
+  )
+}
+
+export function CommandPalette({ sites, onSelect, onMatchesChange }: CommandPaletteProps) {
+  const { t } = useI18n()
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const returnFocusRef = useRef<HTMLElement | null>(null)
+  const openRef = useRef(open)
+
+  const results = useMemo(() => searchSites(sites, query), [sites, query])
+  const activeResult = results[Math.min(activeIndex, results.length - 1)]
+
+  useEffect(() => {
+    if (!open || !query.trim()) {
+      onMatchesChange(null)
+      return
+    }
+    onMatchesChange(new Set(results.map((result) => result.site.id)))
+  }, [open, query, results, onMatchesChange])
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const isToggle = (event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k'
+      const isSlash = event.key === '/' && !event.metaKey && !event.ctrlKey && !isTypingTarget(event.target)
+
+      if (!isToggle && !isSlash) {
+        return
+      }
+
+      event.preventDefault()
+      if (!openRef.current) {
+        returnFocusRef.current = document.activeElement as HTMLElement | null
+      }
+      setOpen((current) => (current ? !isToggle : true))
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    return () => {
+      window.removeEventListener('keydown', onKeyDown)
+    }
+  }, [])
+
+  useEffect(() => {
+    openRef.current = open
+    if (open) {
+      inputRef.current?.focus()
+      inputRef.current?.select()
+      return
+    }
+    returnFocusRef.current?.focus?.()
+    returnFocusRef.current = null
+  }, [open])
+
+  const close = () => {
+    setOpen(false)
+  }
+
+  const pick = (site: SiteNode) => {
+    setOpen(false)
+    setQuery('')
+    setActiveIndex(0)
+    onSelect(site)
+  }
+
+  const onInputKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setActiveIndex((index) => (results.length ? (index + 1) % results.length : 0))
+      return
+    }
+    if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex((index) => (results.length ? (index - 1 + results.length) % results.length : 0))
+      return
+    }
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      if (activeResult) {
+        pick(activeResult.site)
+      }
+      return
+    }
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      event.stopPropagation()
+      close()
+    }
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className={`palette-trigger ${open ? 'hidden' : ''}`}
+        onClick={() => {
+          returnFocusRef.current = document.activeElement as HTMLElement | null
+          setOpen(true)
+        }}
+        aria-label={t('palette.label')}
+      >
+        <span>{t('palette.open')}</span>
+        <kbd>Ctrl K</kbd>
+      </button>
+      <section
+        className={`command-palette ${open ? 'active' : ''}`}
+        aria-hidden={!open}
+        onClick={(event) => {
+          if (event.target === event.currentTarget) {
+            close()
+          }
+        }}
+      >
+        <div className="palette-panel" role="dialog" aria-modal="true" aria-label={t('palette.label')}>
+          <input
+            ref={inputRef}
+            className="palette-input"
+            type="text"
+            role="combobox"
+            aria-expanded={open}
+            aria-controls="palette-results"
+            aria-activedescendant={activeResult ? `palette-option-${activeResult.site.id}` : undefined}
+            placeholder={t('palette.placeholder')}
+            value={query}
+            tabIndex={open ? 0 : -1}
+            onChange={(event) => {
+              setQuery(event.target.value)
+              setActiveIndex(0)
+            }}
+            onKeyDown={onInputKeyDown}
+          />
+          <ul id="palette-results" className="palette-results" role="listbox">
+            {results.map((result) => (
+              <PaletteResult
+                key={result.site.id}
+                result={result}
+                active={result === activeResult}
+                onPick={() => pick(result.site)}
+                onHover={() => setActiveIndex(results.indexOf(result))}
+              />
+            ))}
+            {results.length === 0 ? <li className="palette-empty">{t('palette.empty')}</li> : null}
+          </ul>
+        </div>
+      </section>
+    </>
+  )
+}
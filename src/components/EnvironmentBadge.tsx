@@ -0,0 +1,24 @@
+import { useI18n } from '../hooks/useI18n'
+import type { EnvironmentTag } from '../types/navigation'
+
+interface EnvironmentBadgeProps {
+  environment: EnvironmentTag
+}
+
+export function EnvironmentBadge({ environment }: EnvironmentBadgeProps) {
+  const { t } = useI18n()
+  return (
+    <span
+      className={`environment-badge ${environment.production ? 'is-production' : ''}`}
+      title={
+        environment.fallback
+          ? t('environment.fallback')
+          : environment.production
+            ? t('environment.production')
+            : undefined
+      }
+    >
+      {environment.name}
+    </span>
+  )
+}
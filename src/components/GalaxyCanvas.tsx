@@ -1,35 +1,108 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useImperativeHandle, useMemo, useRef, type Ref } from 'react'
 import gsap from 'gsap'
 import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
-import type { HoverState, SiteNode } from '../types/navigation'
+import { computeLayout, placeChildren, pullTowardCore, type LayoutMode } from '../data/layouts'
+import { resolveNodeColor, visibleSites } from '../data/sites'
+import {
+  collectNeighbours,
+  sampleConstellationCurves,
+  selectConstellationEdges,
+  type ConstellationEdge,
+  type ConstellationNode,
+} from '../scene/constellation'
+import {
+  createDestinationView,
+  disposeDestinationView,
+  type DestinationView,
+  type GalaxyDestination,
+} from '../scene/destinations'
+import { createGalaxyParticles } from '../scene/galaxyParticles'
+import { declutterLabels, type LabelBox } from '../scene/declutter'
+import { drawNodeLabel, setLabelScale } from '../scene/labels'
+import {
+  MAX_DEEP_PARTICLES,
+  MAX_GALAXY_PARTICLES,
+  QUALITY_PRESETS,
+  createQualityGovernor,
+  type QualityGovernor,
+  type QualityLevel,
+  type QualitySetting,
+} from '../scene/quality'
+import {
+  createSiteNodeView,
+  disposeSiteNodeView,
+  updateSiteNodeView,
+  type NodeMesh,
+  type SiteNodeView,
+} from '../scene/siteNodes'
+import type { HealthSnapshot, HealthStatus } from '../services/healthChecker'
+import { lightTheme, type Theme } from '../theme/themes'
+import type {
+  CameraLimits,
+  CameraShot,
+  CameraView,
+  FocusTransition,
+  HoverState,
+  SiteNode,
+  Vec3,
+} from '../types/navigation'
 
 const BASE_CAMERA_POSITION = { x: 0, y: 0, z: 40 }
-const BACKGROUND_COLOR = 0xfaf9f5
-const FOCUS_DISTANCE = 8
-const FOCUS_DURATION = 1.85
+const DEFAULT_FOCUS_TRANSITION: Required<FocusTransition> = {
+  durationMs: 1850,
+  ease: 'expo.inOut',
+  distance: 8,
+}
+// A flight redirected mid-air is already moving, so it eases out rather than starting slow again.
+const REDIRECT_EASE = 'power2.out'
+// Tour stops keep more of the neighbourhood in view than a focus does.
+const SHOT_DISTANCE = 13
+const SHOT_DURATION = 2.4
 const DISTURB_RADIUS = 18
 const DISTURB_INTENSITY = 0.62
-
-type Disposable = { dispose: () => void }
-
-type NodeMesh = THREE.Mesh<THREE.SphereGeometry, THREE.MeshLambertMaterial> & {
-  userData: { site: SiteNode }
-}
-
-type NodeGroup = THREE.Group & {
-  userData: {
-    baseY: number
-    floatOffset: number
-    floatSpeed: number
+const STATS_INTERVAL_MS = 500
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)'
+const DIMMED_OPACITY = 0.16
+const LAYOUT_DURATION = 1.6
+const THEME_DURATION = 0.9
+const NODE_ENTER_DURATION = 0.8
+const NODE_EXIT_DURATION = 0.5
+const TRAVEL_DISTANCE = 260
+const TRAVEL_OUT_DURATION = 1.1
+const TRAVEL_IN_DURATION = 1.9
+const LONG_PRESS_MS = 480
+const COARSE_POINTER_QUERY = '(pointer: coarse)'
+// Hovered labels always win a collision, then related, then busier and nearer nodes.
+const HOVERED_LABEL_PRIORITY = 1000
+const LABEL_FADE_RATE = 6
+// Invisible spheres around each node that pointer picks are tested against, larger for fingers.
+const HIT_RADIUS = 1.1
+const TOUCH_HIT_RADIUS = 1.9
+// Horizontal field of view a square viewport gets; narrower viewports widen the vertical one to keep it.
+const BASE_FOV = 75
+const MAX_PORTRAIT_FOV = 105
+
+const fieldOfViewFor = (aspect: number): number => {
+  if (aspect >= 1) {
+    return BASE_FOV
   }
+  const halfWidth = Math.tan(THREE.MathUtils.degToRad(BASE_FOV / 2))
+  return Math.min(THREE.MathUtils.radToDeg(2 * Math.atan(halfWidth / aspect)), MAX_PORTRAIT_FOV)
 }
-
-interface NodeLabelItem {
-  sprite: THREE.Sprite
-  material: THREE.SpriteMaterial
-  aspect: number
+const HEALTH_ALERT_COLOR: Record<HealthStatus, number | null> = {
+  unknown: null,
+  up: null,
+  degraded: 0xd4962a,
+  down: 0xc4553f,
 }
+const EMPTY_HEALTH: HealthSnapshot = new Map()
+const EMPTY_PROMINENCE: ReadonlyMap<string, number> = new Map()
+const NO_DESTINATIONS: GalaxyDestination[] = []
+const DEFAULT_CAMERA_LIMITS: CameraLimits = { minDistance: 10, maxDistance: 110 }
+
+type Disposable = { dispose: () => void }
+type HoverSource = 'pointer' | 'keyboard' | 'touch'
 
 interface SceneRuntime {
   camera: THREE.PerspectiveCamera
@@ -38,17 +111,58 @@ interface SceneRuntime {
   nodeMeshById: Map<string, NodeMesh>
   focusLocked: boolean
   pendingFocusId: string | null
-  cameraTween: gsap.core.Tween | null
+  /** Set when a flight is aborted, so the focus clear that follows leaves the camera there. */
+  holdCamera: boolean
+  cameraTween: gsap.core.Animation | null
   targetTween: gsap.core.Tween | null
   clearHover: () => void
+  applyLayout: (mode: LayoutMode) => void
+  applyTheme: (theme: Theme) => void
+  setSites: (sites: SiteNode[]) => void
+  setProminence: (prominence: ReadonlyMap<string, number>) => void
+  setQuality: (quality: QualitySetting) => void
+  setCameraLimits: (limits: CameraLimits) => void
+  setGalaxy: (galaxyId: string) => void
+  setDestinations: (destinations: GalaxyDestination[]) => void
+  syncRunning: () => void
+}
+
+export interface GalaxyCanvasHandle {
+  /** The camera's current pose, e.g. to save it as a viewpoint. */
+  getCameraView: () => CameraView | null
 }
 
 interface GalaxyCanvasProps {
   sites: SiteNode[]
   focusSite: SiteNode | null
+  /** Where to take the camera while no site is focused; clearing it returns to the overview. */
+  cameraShot?: CameraShot | null
+  /** Defaults for focus flights; a site's own `focus` takes precedence. */
+  focusTransition?: FocusTransition
+  layout?: LayoutMode
+  theme?: Theme
+  highlightIds?: Set<string> | null
+  keyboardHoverId?: string | null
+  health?: HealthSnapshot
+  /** Per-site emphasis between 0 and 1; prominent nodes grow and sit nearer the core. */
+  prominence?: ReadonlyMap<string, number>
+  cameraLimits?: CameraLimits
+  quality?: QualitySetting
+  paused?: boolean
+  showStats?: boolean
+  /** Holds the scene still and lets nodes be dragged across their horizontal plane. */
+  editMode?: boolean
+  /** Changing this flies the camera out of the current galaxy and into the next. */
+  galaxyId?: string
+  destinations?: GalaxyDestination[]
   onNodeSelect: (site: SiteNode) => void
   onHoverChange: (hover: HoverState) => void
   onFocusComplete: (site: SiteNode) => void
+  /** Called when Escape or the wheel aborts a focus flight; the host should clear `focusSite`. */
+  onFocusCancel?: () => void
+  onNodeMove?: (site: SiteNode, position: Vec3) => void
+  onDestinationSelect?: (destinationId: string) => void
+  ref?: Ref<GalaxyCanvasHandle>
 }
 
 const createSoftParticleTexture = (): THREE.CanvasTexture => {
@@ -75,59 +189,68 @@ const createSoftParticleTexture = (): THREE.CanvasTexture => {
   return texture
 }
 
-const createNodeLabel = (
-  text: string,
-): { sprite: THREE.Sprite; material: THREE.SpriteMaterial; texture: THREE.CanvasTexture; aspect: number } => {
-  const canvas = document.createElement('canvas')
-  const context = canvas.getContext('2d')
-  const width = 512
-  const height = 120
-
-  canvas.width = width
-  canvas.height = height
-
-  if (context) {
-    context.clearRect(0, 0, width, height)
-    context.font = '600 48px "Cormorant Garamond", "Noto Serif SC", serif'
-    context.textAlign = 'center'
-    context.textBaseline = 'middle'
-    context.strokeStyle = 'rgba(250, 249, 245, 0.9)'
-    context.lineWidth = 8
-    context.strokeText(text, width / 2, height / 2 + 1)
-    context.fillStyle = 'rgba(58, 54, 49, 0.96)'
-    context.fillText(text, width / 2, height / 2 + 1)
-  }
-
-  const texture = new THREE.CanvasTexture(canvas)
-  texture.needsUpdate = true
-  texture.generateMipmaps = false
-  texture.minFilter = THREE.LinearFilter
-  texture.magFilter = THREE.LinearFilter
-
-  const material = new THREE.SpriteMaterial({
-    map: texture,
-    transparent: true,
-    depthWrite: false,
-    opacity: 0.92,
-  })
-
-  const sprite = new THREE.Sprite(material)
-  sprite.center.set(0.5, 0)
-  const aspect = width / height
-  sprite.scale.set(aspect * 1.1, 1.1, 1)
-
-  return { sprite, material, texture, aspect }
-}
-
 export function GalaxyCanvas({
   sites,
   focusSite,
+  cameraShot = null,
+  focusTransition = DEFAULT_FOCUS_TRANSITION,
+  layout = 'ring',
+  theme = lightTheme,
+  highlightIds = null,
+  keyboardHoverId = null,
+  health = EMPTY_HEALTH,
+  prominence = EMPTY_PROMINENCE,
+  cameraLimits = DEFAULT_CAMERA_LIMITS,
+  quality = 'auto',
+  paused = false,
+  showStats = false,
+  editMode = false,
+  galaxyId = '',
+  destinations = NO_DESTINATIONS,
   onNodeSelect,
   onHoverChange,
   onFocusComplete,
+  onFocusCancel,
+  onNodeMove,
+  onDestinationSelect,
+  ref,
 }: GalaxyCanvasProps) {
   const containerRef = useRef<HTMLDivElement | null>(null)
   const runtimeRef = useRef<SceneRuntime | null>(null)
+  const highlightRef = useRef<Set<string> | null>(highlightIds)
+  const keyboardHoverRef = useRef<string | null>(keyboardHoverId)
+  const layoutRef = useRef<LayoutMode>(layout)
+  const healthRef = useRef<HealthSnapshot>(health)
+  const themeRef = useRef<Theme>(theme)
+  // A system's children join the scene while it, or a site inside it, is focused or on a tour stop.
+  const expandId = focusSite?.id ?? (cameraShot?.kind === 'site' ? cameraShot.site.id : null)
+  const sceneSites = useMemo(() => visibleSites(sites, expandId), [expandId, sites])
+  const sitesRef = useRef<SiteNode[]>(sceneSites)
+  const prominenceRef = useRef<ReadonlyMap<string, number>>(prominence)
+  const qualityRef = useRef<QualitySetting>(quality)
+  const cameraLimitsRef = useRef<CameraLimits>(cameraLimits)
+  const pausedRef = useRef(paused)
+  const editModeRef = useRef(editMode)
+  const galaxyIdRef = useRef(galaxyId)
+  const destinationsRef = useRef(destinations)
+  const focusTransitionRef = useRef(focusTransition)
+  const statsRef = useRef<HTMLPreElement | null>(null)
+
+  useEffect(() => {
+    healthRef.current = health
+  }, [health])
+
+  useEffect(() => {
+    highlightRef.current = highlightIds
+  }, [highlightIds])
+
+  useEffect(() => {
+    keyboardHoverRef.current = keyboardHoverId
+  }, [keyboardHoverId])
+
+  useEffect(() => {
+    focusTransitionRef.current = focusTransition
+  }, [focusTransition])
 
   useEffect(() => {
     const container = containerRef.current
@@ -135,36 +258,62 @@ export function GalaxyCanvas({
       return
     }
 
+    let appliedTheme = themeRef.current
     const scene = new THREE.Scene()
-    scene.background = new THREE.Color(BACKGROUND_COLOR)
-    scene.fog = new THREE.FogExp2(BACKGROUND_COLOR, 0.014)
-
-    const camera = new THREE.PerspectiveCamera(
-      75,
-      window.innerWidth / window.innerHeight,
-      0.1,
-      1000,
-    )
+    const backgroundColor = new THREE.Color(appliedTheme.scene.background)
+    const fog = new THREE.FogExp2(appliedTheme.scene.background, appliedTheme.scene.fogDensity)
+    scene.background = backgroundColor
+    scene.fog = fog
+
+    // Sized to the container rather than the window so the galaxy can be embedded in a page.
+    const readSize = () => ({
+      width: container.clientWidth || window.innerWidth,
+      height: container.clientHeight || window.innerHeight,
+    })
+    let viewport = readSize()
+
+    const aspect = viewport.width / viewport.height
+    const camera = new THREE.PerspectiveCamera(fieldOfViewFor(aspect), aspect, 0.1, 1000)
     camera.position.set(
       BASE_CAMERA_POSITION.x,
       BASE_CAMERA_POSITION.y,
       BASE_CAMERA_POSITION.z,
     )
 
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true })
-    renderer.setSize(window.innerWidth, window.innerHeight)
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
-    renderer.toneMapping = THREE.NoToneMapping
+    let qualityLevel: QualityLevel = qualityRef.current === 'auto' ? 'high' : qualityRef.current
+    let preset = QUALITY_PRESETS[qualityLevel]
+
+    const createRenderer = (antialias: boolean) => {
+      const next = new THREE.WebGLRenderer({ antialias, alpha: true })
+      next.setSize(viewport.width, viewport.height)
+      next.setPixelRatio(Math.min(window.devicePixelRatio, preset.maxPixelRatio))
+      next.toneMapping = THREE.NoToneMapping
+      return next
+    }
+
+    // Antialiasing is fixed per WebGL context, so the renderer itself is swapped when it changes.
+    // Pointer input and controls listen on the container so they survive the swap.
+    let renderer = createRenderer(preset.antialias)
     container.appendChild(renderer.domElement)
 
-    const controls = new OrbitControls(camera, renderer.domElement)
+    const controls = new OrbitControls(camera, container)
     controls.enableDamping = true
     controls.dampingFactor = 0.06
     controls.rotateSpeed = 0.62
     controls.zoomSpeed = 0.8
     controls.panSpeed = 0.72
-    controls.minDistance = 10
-    controls.maxDistance = 110
+    // Pinch zooms while two fingers twist the view; one finger still orbits.
+    controls.touches = { ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_ROTATE }
+    const coarsePointer = window.matchMedia(COARSE_POINTER_QUERY).matches
+    if (coarsePointer) {
+      controls.rotateSpeed = 0.5
+      controls.zoomSpeed = 1.2
+    }
+    const setCameraLimits = (limits: CameraLimits) => {
+      controls.minDistance = limits.minDistance
+      controls.maxDistance = limits.maxDistance
+    }
+    setCameraLimits(cameraLimitsRef.current)
     controls.target.set(0, 0, 0)
     controls.update()
 
@@ -172,63 +321,22 @@ export function GalaxyCanvas({
     const starSprite = createSoftParticleTexture()
     disposableResources.push(starSprite)
 
-    const galaxyGeometry = new THREE.BufferGeometry()
-    const galaxyCount = 3000
-    const galaxyPositions = new Float32Array(galaxyCount * 3)
-    const galaxyColors = new Float32Array(galaxyCount * 3)
-    const galaxyColor = new THREE.Color(0x777777)
-    const galaxyPhase = new Float32Array(galaxyCount)
-    const galaxySpeed = new Float32Array(galaxyCount)
-    const galaxyAmplitude = new Float32Array(galaxyCount)
-    const galaxyTwist = new Float32Array(galaxyCount)
-    const galaxyPulse = new Float32Array(galaxyCount)
-
-    for (let index = 0; index < galaxyCount * 3; index += 3) {
-      const radius = Math.random() * 46
-      const theta = Math.random() * Math.PI * 2
-      const ySpread = (Math.random() - 0.5) * 11 * (1 - radius / 46)
-
-      galaxyPositions[index] = radius * Math.cos(theta)
-      galaxyPositions[index + 1] = ySpread
-      galaxyPositions[index + 2] = radius * Math.sin(theta)
-
-      galaxyColors[index] = galaxyColor.r
-      galaxyColors[index + 1] = galaxyColor.g
-      galaxyColors[index + 2] = galaxyColor.b
-    }
-
-    for (let index = 0; index < galaxyCount; index += 1) {
-      galaxyPhase[index] = Math.random() * Math.PI * 2
-      galaxySpeed[index] = 0.25 + Math.random() * 1.2
-      galaxyAmplitude[index] = 0.08 + Math.random() * 0.34
-      galaxyTwist[index] = 0.0018 + Math.random() * 0.009
-      galaxyPulse[index] = 0.004 + Math.random() * 0.018
-    }
-
-    const galaxyBasePositions = galaxyPositions.slice()
-
-    galaxyGeometry.setAttribute('position', new THREE.BufferAttribute(galaxyPositions, 3))
-    galaxyGeometry.setAttribute('color', new THREE.BufferAttribute(galaxyColors, 3))
-
-    const galaxyMaterial = new THREE.PointsMaterial({
-      size: 0.18,
-      vertexColors: true,
+    const galaxy = createGalaxyParticles({
+      count: MAX_GALAXY_PARTICLES,
+      color: appliedTheme.particles.galaxyColor,
+      opacity: appliedTheme.particles.galaxyOpacity,
       map: starSprite,
-      alphaTest: 0.15,
-      depthWrite: false,
-      transparent: true,
-      opacity: 0.62,
+      disturbRadius: DISTURB_RADIUS,
+      disturbIntensity: DISTURB_INTENSITY,
     })
-
-    const galaxyField = new THREE.Points(galaxyGeometry, galaxyMaterial)
+    const galaxyField = galaxy.points
+    const galaxyMaterial = galaxyField.material
+    galaxyField.geometry.setDrawRange(0, preset.galaxyParticles)
     scene.add(galaxyField)
-    disposableResources.push(galaxyGeometry, galaxyMaterial)
-    const galaxyPositionAttr = galaxyGeometry.getAttribute(
-      'position',
-    ) as THREE.BufferAttribute
+    disposableResources.push(galaxyField.geometry, galaxyMaterial)
 
     const deepGeometry = new THREE.BufferGeometry()
-    const deepCount = 2200
+    const deepCount = MAX_DEEP_PARTICLES
     const deepPositions = new Float32Array(deepCount * 3)
     const deepColors = new Float32Array(deepCount * 3)
 
@@ -250,127 +358,287 @@ export function GalaxyCanvas({
 
     deepGeometry.setAttribute('position', new THREE.BufferAttribute(deepPositions, 3))
     deepGeometry.setAttribute('color', new THREE.BufferAttribute(deepColors, 3))
+    deepGeometry.setDrawRange(0, preset.deepParticles)
 
     const deepMaterial = new THREE.PointsMaterial({
       size: 0.1,
+      color: appliedTheme.particles.deepColor,
       vertexColors: true,
       map: starSprite,
       alphaTest: 0.15,
       depthWrite: false,
       transparent: true,
-      opacity: 0.5,
+      opacity: appliedTheme.particles.deepOpacity,
     })
     const deepStars = new THREE.Points(deepGeometry, deepMaterial)
     scene.add(deepStars)
+
+    const destinationsGroup = new THREE.Group()
+    scene.add(destinationsGroup)
+    let destinationViews: DestinationView[] = []
+    let appliedDestinations: GalaxyDestination[] = []
+    let appliedGalaxy = galaxyIdRef.current
+    let galaxyPhase = 0
     disposableResources.push(deepGeometry, deepMaterial)
 
-    const hemiLight = new THREE.HemisphereLight(0xffffff, 0xe7e1d3, 0.96)
-    const keyLight = new THREE.DirectionalLight(0xffffff, 0.46)
+    const hemiLight = new THREE.HemisphereLight(
+      appliedTheme.lights.sky,
+      appliedTheme.lights.ground,
+      appliedTheme.lights.hemiIntensity,
+    )
+    const keyLight = new THREE.DirectionalLight(0xffffff, appliedTheme.lights.keyIntensity)
     keyLight.position.set(10, 14, 10)
-    const fillLight = new THREE.DirectionalLight(0xffffff, 0.28)
+    const fillLight = new THREE.DirectionalLight(0xffffff, appliedTheme.lights.fillIntensity)
     fillLight.position.set(-10, -4, -8)
     scene.add(hemiLight, keyLight, fillLight)
 
     const nodesGroup = new THREE.Group()
-    const nodeMeshes: NodeMesh[] = []
-    const nodeLabels: NodeLabelItem[] = []
+    // Every view keyed by site id, including ones still playing their exit animation.
+    const nodeViews = new Map<string, SiteNodeView>()
+    // Views of the current sites, in site order; constellation and relation indices refer to this.
+    let activeViews: SiteNodeView[] = []
+    let hitAreas: THREE.Mesh[] = []
     const nodeMeshById = new Map<string, NodeMesh>()
-    const sitePoints: THREE.Vector3[] = []
+    let currentSites: SiteNode[] = []
+    const ringColor = new THREE.Color(appliedTheme.nodes.ring)
+    let appliedLayout = layoutRef.current
+    let appliedProminence = prominenceRef.current
 
-    const sphereGeometry = new THREE.SphereGeometry(0.8, 32, 32)
+    let sphereGeometry = new THREE.SphereGeometry(0.8, preset.sphereSegments, preset.sphereSegments)
+    const moonGeometry = new THREE.SphereGeometry(0.16, 12, 10)
     const ringGeometry = new THREE.RingGeometry(1.2, 1.25, 64)
-    disposableResources.push(sphereGeometry, ringGeometry)
+    const hitGeometry = new THREE.SphereGeometry(
+      coarsePointer ? TOUCH_HIT_RADIUS : HIT_RADIUS,
+      12,
+      8,
+    )
+    const hitMaterial = new THREE.MeshBasicMaterial()
+    disposableResources.push(moonGeometry, ringGeometry, hitGeometry, hitMaterial)
+    scene.add(nodesGroup)
+
+    let constellationNodes: ConstellationNode[] = []
 
-    for (const site of sites) {
-      const group = new THREE.Group() as NodeGroup
-      group.position.set(site.position.x, site.position.y, site.position.z)
-      group.userData = {
-        baseY: site.position.y,
-        floatOffset: Math.random() * Math.PI * 2,
-        floatSpeed: 1 + Math.random() * 0.5,
+    const lineMaterial = new THREE.LineBasicMaterial({
+      color: appliedTheme.lines.color,
+      transparent: true,
+      opacity: 0.12,
+    })
+    const intraLineMaterial = new THREE.LineBasicMaterial({
+      color: appliedTheme.lines.color,
+      transparent: true,
+      opacity: 0.36,
+    })
+    const relationLineMaterial = new THREE.LineBasicMaterial({
+      color: appliedTheme.lines.relation,
+      transparent: true,
+      opacity: 0,
+    })
+    const constellation = new THREE.Group()
+    const crossLines = new THREE.LineSegments(new THREE.BufferGeometry(), lineMaterial)
+    const intraLines = new THREE.LineSegments(new THREE.BufferGeometry(), intraLineMaterial)
+    const relationLines = new THREE.LineSegments(new THREE.BufferGeometry(), relationLineMaterial)
+    constellation.add(crossLines, intraLines, relationLines)
+    scene.add(constellation)
+    disposableResources.push(lineMaterial, intraLineMaterial, relationLineMaterial)
+
+    let constellationEdges: ConstellationEdge[] = []
+    let relationIndex: number | null = null
+    let relationWeight = 0
+    const relatedIds = new Set<string>()
+
+    const updateRelationHighlight = () => {
+      relatedIds.clear()
+      const edges =
+        relationIndex === null
+          ? []
+          : constellationEdges.filter(
+              (edge) => edge.from === relationIndex || edge.to === relationIndex,
+            )
+
+      if (relationIndex !== null) {
+        for (const neighbour of collectNeighbours(edges, relationIndex)) {
+          relatedIds.add(activeViews[neighbour].site.id)
+        }
       }
 
-      const sphereMaterial = new THREE.MeshLambertMaterial({
-        color: site.color,
-        emissive: new THREE.Color(site.color).multiplyScalar(0.08),
-      })
-      const sphere = new THREE.Mesh(sphereGeometry, sphereMaterial) as NodeMesh
-      sphere.userData = { site }
-      disposableResources.push(sphereMaterial)
-
-      const ringMaterial = new THREE.MeshBasicMaterial({
-        color: 0x7f786d,
-        side: THREE.DoubleSide,
-        transparent: true,
-        opacity: 0.24,
-      })
-      const ring = new THREE.Mesh(ringGeometry, ringMaterial)
-      ring.rotation.x = Math.PI / 2
-      disposableResources.push(ringMaterial)
-
-      const label = createNodeLabel(site.name)
-      label.sprite.position.set(0, 1.25, 0)
-      group.add(label.sprite)
-      nodeLabels.push({
-        sprite: label.sprite,
-        material: label.material,
-        aspect: label.aspect,
+      relationLines.geometry.dispose()
+      relationLines.geometry = new THREE.BufferGeometry().setFromPoints(
+        sampleConstellationCurves(constellationNodes, edges),
+      )
+    }
+
+    const rebuildConstellation = () => {
+      activeViews.forEach(({ group }, index) => {
+        constellationNodes[index].point.set(group.position.x, group.userData.baseY, group.position.z)
       })
-      disposableResources.push(label.texture, label.material)
+      constellationEdges = selectConstellationEdges(constellationNodes)
+      const cross = sampleConstellationCurves(
+        constellationNodes,
+        constellationEdges.filter((edge) => !edge.intraCategory),
+      )
+      const intra = sampleConstellationCurves(
+        constellationNodes,
+        constellationEdges.filter((edge) => edge.intraCategory),
+      )
 
-      group.add(sphere)
-      group.add(ring)
-      nodesGroup.add(group)
-      nodeMeshes.push(sphere)
-      nodeMeshById.set(site.id, sphere)
-      sitePoints.push(new THREE.Vector3(site.position.x, site.position.y, site.position.z))
+      crossLines.geometry.dispose()
+      crossLines.geometry = new THREE.BufferGeometry().setFromPoints(cross)
+      intraLines.geometry.dispose()
+      intraLines.geometry = new THREE.BufferGeometry().setFromPoints(intra)
+      updateRelationHighlight()
     }
 
-    scene.add(nodesGroup)
+    let layoutTween: gsap.core.Tween | null = null
+
+    const moveNodesTo = (targets: Map<string, Vec3>) => {
+      layoutTween?.kill()
+      const moves = activeViews.map(({ group, site }) => ({
+        group,
+        start: { x: group.position.x, y: group.userData.baseY, z: group.position.z },
+        target: targets.get(site.id) ?? site.position,
+      }))
+      const progress = { value: 0 }
+
+      layoutTween = gsap.to(progress, {
+        value: 1,
+        duration: LAYOUT_DURATION,
+        ease: 'power3.inOut',
+        onUpdate: () => {
+          for (const { group, start, target } of moves) {
+            group.position.x = THREE.MathUtils.lerp(start.x, target.x, progress.value)
+            group.position.z = THREE.MathUtils.lerp(start.z, target.z, progress.value)
+            group.userData.baseY = THREE.MathUtils.lerp(start.y, target.y, progress.value)
+          }
+          rebuildConstellation()
+        },
+      })
+    }
 
-    const curveSegments: THREE.Vector3[] = []
-    for (let index = 0; index < sitePoints.length; index += 1) {
-      const from = sitePoints[index]
-      const candidates = sitePoints
-        .map((point, pointIndex) => ({ point, pointIndex }))
-        .filter(({ pointIndex }) => pointIndex > index)
-        .map(({ point, pointIndex }) => ({
-          point,
-          pointIndex,
-          distance: from.distanceToSquared(point),
-        }))
-        .sort((a, b) => a.distance - b.distance)
-        .slice(0, 2)
-
-      for (const candidate of candidates) {
-        const to = sitePoints[candidate.pointIndex]
-        const distance = Math.sqrt(candidate.distance)
-        const midpoint = from.clone().add(to).multiplyScalar(0.5)
-        const curveNormal = midpoint.clone().normalize()
-
-        if (curveNormal.lengthSq() < 0.0001) {
-          curveNormal.set(0, 1, 0)
-        }
+    const layoutTargets = (targetSites: SiteNode[]) =>
+      placeChildren(
+        targetSites,
+        pullTowardCore(targetSites, computeLayout(targetSites, appliedLayout), appliedProminence),
+      )
 
-        const control = midpoint.addScaledVector(curveNormal, 0.2 * distance + 1.2)
-        const curve = new THREE.QuadraticBezierCurve3(from, control, to)
-        const sampledPoints = curve.getPoints(14)
+    const applyLayout = (mode: LayoutMode) => {
+      if (mode === appliedLayout) {
+        return
+      }
+      appliedLayout = mode
+      moveNodesTo(layoutTargets(currentSites))
+    }
 
-        for (let pointIndex = 0; pointIndex < sampledPoints.length - 1; pointIndex += 1) {
-          curveSegments.push(sampledPoints[pointIndex], sampledPoints[pointIndex + 1])
-        }
+    const setProminence = (nextProminence: ReadonlyMap<string, number>) => {
+      if (nextProminence === appliedProminence) {
+        return
       }
+      appliedProminence = nextProminence
+      moveNodesTo(layoutTargets(currentSites))
     }
 
-    const lineGeometry = new THREE.BufferGeometry().setFromPoints(curveSegments)
-    const lineMaterial = new THREE.LineBasicMaterial({
-      color: 0x746e63,
-      transparent: true,
-      opacity: 0.18,
-    })
-    const constellation = new THREE.LineSegments(lineGeometry, lineMaterial)
-    scene.add(constellation)
-    disposableResources.push(lineGeometry, lineMaterial)
+    let themeTween: gsap.core.Tween | null = null
+
+    const applyTheme = (nextTheme: Theme) => {
+      if (nextTheme === appliedTheme) {
+        return
+      }
+      appliedTheme = nextTheme
+      themeTween?.kill()
+
+      const colorTween = (from: THREE.Color, to: number) => ({
+        target: from,
+        from: from.clone(),
+        to: new THREE.Color(to),
+      })
+      const colors = [
+        colorTween(backgroundColor, nextTheme.scene.background),
+        colorTween(fog.color, nextTheme.scene.background),
+        colorTween(galaxyMaterial.color, nextTheme.particles.galaxyColor),
+        colorTween(deepMaterial.color, nextTheme.particles.deepColor),
+        colorTween(hemiLight.color, nextTheme.lights.sky),
+        colorTween(hemiLight.groundColor, nextTheme.lights.ground),
+        colorTween(ringColor, nextTheme.nodes.ring),
+        colorTween(lineMaterial.color, nextTheme.lines.color),
+        colorTween(intraLineMaterial.color, nextTheme.lines.color),
+        colorTween(relationLineMaterial.color, nextTheme.lines.relation),
+        ...destinationViews.map((view) =>
+          colorTween(view.glow.material.color, nextTheme.particles.galaxyColor),
+        ),
+        ...activeViews.flatMap((view) => {
+          const color = resolveNodeColor(view.site, nextTheme.nodes.lightness)
+          return [
+            colorTween(view.baseColor, color),
+            colorTween(
+              view.baseEmissive,
+              new THREE.Color(color).multiplyScalar(nextTheme.nodes.emissiveScale).getHex(),
+            ),
+          ]
+        }),
+      ]
+      const scalarTween = (from: number, to: number, set: (value: number) => void) => ({
+        from,
+        to,
+        set,
+      })
+      const scalars = [
+        scalarTween(fog.density, nextTheme.scene.fogDensity, (value) => (fog.density = value)),
+        scalarTween(
+          galaxyMaterial.opacity,
+          nextTheme.particles.galaxyOpacity,
+          (value) => (galaxyMaterial.opacity = value),
+        ),
+        scalarTween(
+          deepMaterial.opacity,
+          nextTheme.particles.deepOpacity,
+          (value) => (deepMaterial.opacity = value),
+        ),
+        scalarTween(
+          hemiLight.intensity,
+          nextTheme.lights.hemiIntensity,
+          (value) => (hemiLight.intensity = value),
+        ),
+        scalarTween(
+          keyLight.intensity,
+          nextTheme.lights.keyIntensity,
+          (value) => (keyLight.intensity = value),
+        ),
+        scalarTween(
+          fillLight.intensity,
+          nextTheme.lights.fillIntensity,
+          (value) => (fillLight.intensity = value),
+        ),
+      ]
+
+      const progress = { value: 0 }
+      let labelsRedrawn = false
+
+      themeTween = gsap.to(progress, {
+        value: 1,
+        duration: THEME_DURATION,
+        ease: 'power2.inOut',
+        onUpdate: () => {
+          for (const color of colors) {
+            color.target.copy(color.from).lerp(color.to, progress.value)
+          }
+          for (const scalar of scalars) {
+            scalar.set(THREE.MathUtils.lerp(scalar.from, scalar.to, progress.value))
+          }
+          for (const view of nodeViews.values()) {
+            view.sphere.material.color.copy(view.baseColor)
+            view.moonMaterial.color.copy(view.baseColor)
+          }
+          if (!labelsRedrawn && progress.value >= 0.5) {
+            labelsRedrawn = true
+            for (const view of nodeViews.values()) {
+              drawNodeLabel(view.label, nextTheme.labels)
+            }
+            for (const view of destinationViews) {
+              drawNodeLabel(view.label, nextTheme.labels)
+            }
+          }
+        },
+      })
+    }
 
     const raycaster = new THREE.Raycaster()
     const pointerNdc = new THREE.Vector2(2, 2)
@@ -381,17 +649,45 @@ export function GalaxyCanvas({
     const disturbProject = new THREE.Vector3()
     const disturbDirection = new THREE.Vector3()
     const tempLabelWorld = new THREE.Vector3()
+    const tempLabelScreen = new THREE.Vector3()
+    const labelQueue: LabelBox[] = []
+    const tempHoverWorld = new THREE.Vector3()
+    const keyboardAnchor = { x: 0, y: 0 }
 
     let currentHovered: NodeMesh | null = null
+    let hoverSource: HoverSource = 'pointer'
     let pointerDown = false
+    let touchActive = false
+    let lastPointerType = 'mouse'
+    let longPressed = false
+    let longPressTimer = 0
     let dragDistance = 0
     let disturbWeightTarget = 0
     let disturbWeight = 0
     const pointerDownAt = { x: 0, y: 0 }
     const dragThreshold = 8
+    const dragPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0)
+    const dragPoint = new THREE.Vector3()
+    let draggedView: SiteNodeView | null = null
+
+    const projectHoverAnchor = (mesh: NodeMesh): boolean => {
+      mesh.getWorldPosition(tempHoverWorld).project(camera)
+      const bounds = container.getBoundingClientRect()
+      const x = Math.round(bounds.left + ((tempHoverWorld.x + 1) / 2) * bounds.width)
+      const y = Math.round(bounds.top + ((1 - tempHoverWorld.y) / 2) * bounds.height)
+      const moved = x !== keyboardAnchor.x || y !== keyboardAnchor.y
+      keyboardAnchor.x = x
+      keyboardAnchor.y = y
+      return moved
+    }
 
-    const setHovered = (nextHovered: NodeMesh | null) => {
-      if (currentHovered === nextHovered) {
+    const findRelationIndex = (): number | null => {
+      const index = activeViews.findIndex((view) => view.sphere === currentHovered)
+      return index === -1 ? null : index
+    }
+
+    const setHovered = (nextHovered: NodeMesh | null, source: HoverSource = 'pointer') => {
+      if (currentHovered === nextHovered && hoverSource === source) {
         return
       }
 
@@ -406,6 +702,9 @@ export function GalaxyCanvas({
       }
 
       currentHovered = nextHovered
+      hoverSource = source
+      relationIndex = findRelationIndex()
+      updateRelationHighlight()
 
       if (currentHovered) {
         gsap.to(currentHovered.scale, {
@@ -415,29 +714,70 @@ export function GalaxyCanvas({
           duration: 0.25,
           overwrite: true,
         })
-        renderer.domElement.style.cursor = 'pointer'
+        if (source === 'keyboard') {
+          projectHoverAnchor(currentHovered)
+        }
+        const anchor = source === 'keyboard' ? keyboardAnchor : pointerClient
+        container.style.cursor = source === 'pointer' ? 'pointer' : 'default'
         onHoverChange({
           site: currentHovered.userData.site,
-          x: pointerClient.x,
-          y: pointerClient.y,
+          x: anchor.x,
+          y: anchor.y,
         })
         return
       }
 
-      renderer.domElement.style.cursor = 'default'
+      container.style.cursor = 'default'
       onHoverChange({ site: null, x: 0, y: 0 })
     }
 
-    const onPointerMove = (event: PointerEvent) => {
-      pointerNdc.x = (event.clientX / window.innerWidth) * 2 - 1
-      pointerNdc.y = -(event.clientY / window.innerHeight) * 2 + 1
+    const trackPointer = (event: MouseEvent) => {
+      const bounds = container.getBoundingClientRect()
+      pointerNdc.x = ((event.clientX - bounds.left) / bounds.width) * 2 - 1
+      pointerNdc.y = -((event.clientY - bounds.top) / bounds.height) * 2 + 1
       pointerClient.x = event.clientX
       pointerClient.y = event.clientY
+    }
+
+    const pickNode = (): NodeMesh | null => {
+      raycaster.setFromCamera(pointerNdc, camera)
+      const hit = raycaster.intersectObjects(hitAreas, false)[0]
+      return (hit?.object.parent as NodeMesh | undefined) ?? null
+    }
+
+    // Touch has no hover, so holding a finger on a node raises its card instead.
+    const onLongPress = () => {
+      if (dragDistance > dragThreshold || runtimeRef.current?.focusLocked) {
+        return
+      }
+      const hit = pickNode()
+      if (hit) {
+        longPressed = true
+        setHovered(hit, 'touch')
+      }
+    }
+
+    const onPointerMove = (event: PointerEvent) => {
+      trackPointer(event)
 
       if (pointerDown) {
         const dx = event.clientX - pointerDownAt.x
         const dy = event.clientY - pointerDownAt.y
         dragDistance = Math.max(dragDistance, Math.hypot(dx, dy))
+        if (dragDistance > dragThreshold) {
+          window.clearTimeout(longPressTimer)
+        }
+      }
+
+      if (draggedView && dragDistance > dragThreshold) {
+        raycaster.setFromCamera(pointerNdc, camera)
+        if (raycaster.ray.intersectPlane(dragPlane, dragPoint)) {
+          nodesGroup.worldToLocal(dragPoint)
+          draggedView.group.position.x = dragPoint.x
+          draggedView.group.position.z = dragPoint.z
+          rebuildConstellation()
+        }
+        return
       }
 
       disturbProject.set(pointerNdc.x, pointerNdc.y, 0.5).unproject(camera)
@@ -446,7 +786,7 @@ export function GalaxyCanvas({
       disturbTarget.copy(camera.position).addScaledVector(disturbDirection, targetDistance)
       disturbWeightTarget = 1
 
-      if (currentHovered) {
+      if (currentHovered && hoverSource === 'pointer') {
         onHoverChange({
           site: currentHovered.userData.site,
           x: pointerClient.x,
@@ -460,10 +800,50 @@ export function GalaxyCanvas({
       pointerDownAt.x = event.clientX
       pointerDownAt.y = event.clientY
       dragDistance = 0
+      longPressed = false
+      window.clearTimeout(longPressTimer)
+      if (hoverSource === 'touch') {
+        setHovered(null)
+      }
+      lastPointerType = event.pointerType
+      touchActive = lastPointerType === 'touch'
+      trackPointer(event)
+
+      if (editModeRef.current && !runtimeRef.current?.focusLocked) {
+        const pressed = pickNode()
+        // Children keep their place around the system, so only top-level sites can be dragged.
+        draggedView =
+          activeViews.find((view) => view.sphere === pressed && !view.site.parentId) ?? null
+      }
+      if (touchActive && !draggedView) {
+        longPressTimer = window.setTimeout(onLongPress, LONG_PRESS_MS)
+      }
+      if (draggedView) {
+        layoutTween?.kill()
+        controls.enabled = false
+        dragPlane.constant = -draggedView.group.userData.baseY
+        container.style.cursor = 'grabbing'
+      }
     }
 
     const onPointerUp = () => {
       pointerDown = false
+      touchActive = false
+      window.clearTimeout(longPressTimer)
+      const view = draggedView
+      if (!view) {
+        return
+      }
+      draggedView = null
+      controls.enabled = !runtimeRef.current?.focusLocked
+      container.style.cursor = currentHovered ? 'pointer' : 'default'
+      if (dragDistance > dragThreshold) {
+        onNodeMove?.(view.site, {
+          x: view.group.position.x,
+          y: view.group.userData.baseY,
+          z: view.group.position.z,
+        })
+      }
     }
 
     const onPointerLeave = () => {
@@ -472,39 +852,359 @@ export function GalaxyCanvas({
       pointerNdc.set(2, 2)
     }
 
-    const onClick = () => {
+    const onContextMenu = (event: MouseEvent) => {
+      if (touchActive || longPressed) {
+        event.preventDefault()
+      }
+    }
+
+    // Picks at the click point itself: a tap has no hover beforehand, and touch resets the
+    // pointer on lift before the click arrives.
+    const onClick = (event: MouseEvent) => {
+      if (longPressed) {
+        longPressed = false
+        return
+      }
       if (dragDistance > dragThreshold) {
         dragDistance = 0
         return
       }
 
       const runtime = runtimeRef.current
-      if (!runtime || runtime.focusLocked || !currentHovered) {
+      if (!runtime) {
+        return
+      }
+
+      // Nodes stay clickable while focused or mid-flight; picking another one redirects the camera.
+      trackPointer(event)
+      const picked = pickNode()
+      if (lastPointerType === 'touch') {
+        pointerNdc.set(2, 2)
+      }
+
+      if (!picked && destinationViews.length > 0 && !runtime.focusLocked) {
+        const hit = raycaster.intersectObjects(
+          destinationViews.map((view) => view.glow),
+          false,
+        )[0]
+        const destination = destinationViews.find((view) => view.glow === hit?.object)
+        if (destination) {
+          onDestinationSelect?.(destination.destination.id)
+        }
+        return
+      }
+
+      if (!picked) {
         return
       }
 
       dragDistance = 0
-      onNodeSelect(currentHovered.userData.site)
+      onNodeSelect(picked.userData.site)
     }
 
     const onResize = () => {
-      camera.aspect = window.innerWidth / window.innerHeight
+      viewport = readSize()
+      camera.aspect = viewport.width / viewport.height
+      camera.fov = fieldOfViewFor(camera.aspect)
       camera.updateProjectionMatrix()
-      renderer.setSize(window.innerWidth, window.innerHeight)
-      renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+      renderer.setSize(viewport.width, viewport.height)
+      renderer.setPixelRatio(Math.min(window.devicePixelRatio, preset.maxPixelRatio))
+    }
+
+    // Moving the window to a screen with another density doesn't resize it, so the ratio
+    // is watched on its own; labels are re-rasterized to stay sharp there.
+    const pixelRatioQueryFor = () =>
+      window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`)
+    let pixelRatioQuery = pixelRatioQueryFor()
+    const onPixelRatioChange = () => {
+      pixelRatioQuery.removeEventListener('change', onPixelRatioChange)
+      pixelRatioQuery = pixelRatioQueryFor()
+      pixelRatioQuery.addEventListener('change', onPixelRatioChange)
+      onResize()
+      for (const view of nodeViews.values()) {
+        drawNodeLabel(view.label, view.label.style)
+      }
+      for (const view of destinationViews) {
+        drawNodeLabel(view.label, view.label.style)
+      }
+    }
+
+    const applyQuality = (level: QualityLevel) => {
+      const previous = preset
+      qualityLevel = level
+      preset = QUALITY_PRESETS[level]
+
+      galaxyField.geometry.setDrawRange(0, preset.galaxyParticles)
+      deepGeometry.setDrawRange(0, preset.deepParticles)
+
+      if (preset.sphereSegments !== previous.sphereSegments) {
+        const previousGeometry = sphereGeometry
+        sphereGeometry = new THREE.SphereGeometry(0.8, preset.sphereSegments, preset.sphereSegments)
+        for (const view of nodeViews.values()) {
+          view.sphere.geometry = sphereGeometry
+        }
+        previousGeometry.dispose()
+      }
+
+      if (preset.antialias !== previous.antialias) {
+        const previousRenderer = renderer
+        renderer = createRenderer(preset.antialias)
+        container.replaceChild(renderer.domElement, previousRenderer.domElement)
+        previousRenderer.dispose()
+        previousRenderer.forceContextLoss()
+        if (runtimeRef.current) {
+          runtimeRef.current.renderer = renderer
+        }
+      } else {
+        renderer.setPixelRatio(Math.min(window.devicePixelRatio, preset.maxPixelRatio))
+      }
+
+      if (preset.maxPixelRatio !== previous.maxPixelRatio) {
+        for (const view of [...nodeViews.values(), ...destinationViews]) {
+          view.label.maxPixelRatio = preset.maxPixelRatio
+          drawNodeLabel(view.label, view.label.style)
+        }
+      }
+    }
+
+    let governor: QualityGovernor | null = null
+
+    const setQuality = (setting: QualitySetting) => {
+      governor =
+        setting === 'auto'
+          ? createQualityGovernor({ initial: qualityLevel, onChange: applyQuality })
+          : null
+      if (setting !== 'auto' && setting !== qualityLevel) {
+        applyQuality(setting)
+      }
+    }
+
+    setQuality(qualityRef.current)
+
+    const reducedMotionQuery = window.matchMedia(REDUCED_MOTION_QUERY)
+    let reducedMotion = reducedMotionQuery.matches
+    const onReducedMotionChange = (event: MediaQueryListEvent) => {
+      reducedMotion = event.matches
     }
 
     const onControlStart = () => {
       setHovered(null)
     }
 
+    // Stops a focus flight where it is and hands the camera back to the orbit controls.
+    const cancelFocusFlight = (): boolean => {
+      const runtime = runtimeRef.current
+      if (!runtime?.pendingFocusId || !onFocusCancel || !runtime.cameraTween?.isActive()) {
+        return false
+      }
+      runtime.cameraTween.kill()
+      runtime.targetTween?.kill()
+      runtime.cameraTween = null
+      runtime.targetTween = null
+      runtime.pendingFocusId = null
+      runtime.focusLocked = false
+      runtime.holdCamera = true
+      controls.enabled = true
+      onFocusCancel()
+      return true
+    }
+
+    const onWheel = () => {
+      cancelFocusFlight()
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && cancelFocusFlight()) {
+        event.preventDefault()
+      }
+    }
+
     controls.addEventListener('start', onControlStart)
-    renderer.domElement.addEventListener('pointermove', onPointerMove)
-    renderer.domElement.addEventListener('pointerdown', onPointerDown)
-    renderer.domElement.addEventListener('click', onClick)
+    container.addEventListener('pointermove', onPointerMove)
+    container.addEventListener('pointerdown', onPointerDown)
+    container.addEventListener('click', onClick)
+    container.addEventListener('contextmenu', onContextMenu)
     window.addEventListener('pointerup', onPointerUp)
-    renderer.domElement.addEventListener('pointerleave', onPointerLeave)
-    window.addEventListener('resize', onResize)
+    container.addEventListener('pointerleave', onPointerLeave)
+    container.addEventListener('wheel', onWheel, { passive: true })
+    window.addEventListener('keydown', onKeyDown)
+    const resizeObserver = new ResizeObserver(onResize)
+    resizeObserver.observe(container)
+    reducedMotionQuery.addEventListener('change', onReducedMotionChange)
+    pixelRatioQuery.addEventListener('change', onPixelRatioChange)
+
+    const showNode = (view: SiteNodeView) => {
+      view.leaving = false
+      gsap.to(view, {
+        presence: 1,
+        duration: NODE_ENTER_DURATION,
+        ease: 'back.out(1.7)',
+        overwrite: true,
+      })
+    }
+
+    const hideNode = (view: SiteNodeView) => {
+      view.leaving = true
+      gsap.to(view, {
+        presence: 0,
+        duration: NODE_EXIT_DURATION,
+        ease: 'power2.in',
+        overwrite: true,
+        onComplete: () => {
+          disposeSiteNodeView(view)
+          nodeViews.delete(view.site.id)
+        },
+      })
+    }
+
+    const setSites = (nextSites: SiteNode[]) => {
+      if (nextSites === currentSites) {
+        return
+      }
+      currentSites = nextSites
+      const targets = layoutTargets(nextSites)
+      const nextIds = new Set(nextSites.map((site) => site.id))
+
+      for (const view of activeViews) {
+        if (!nextIds.has(view.site.id)) {
+          hideNode(view)
+        }
+      }
+
+      activeViews = nextSites.map((site) => {
+        const existing = nodeViews.get(site.id)
+        if (existing) {
+          updateSiteNodeView(existing, site, { theme: appliedTheme, moonGeometry })
+          if (existing.leaving) {
+            showNode(existing)
+          }
+          return existing
+        }
+
+        const view = createSiteNodeView(site, targets.get(site.id) ?? site.position, {
+          sphereGeometry,
+          moonGeometry,
+          ringGeometry,
+          hitGeometry,
+          hitMaterial,
+          ringColor,
+          theme: appliedTheme,
+          maxPixelRatio: preset.maxPixelRatio,
+        })
+        nodesGroup.add(view.group)
+        nodeViews.set(site.id, view)
+        showNode(view)
+        return view
+      })
+
+      for (const view of activeViews) {
+        view.expanded = Boolean(view.site.childIds?.some((id) => nextIds.has(id)))
+      }
+
+      hitAreas = activeViews.map((view) => view.hitArea)
+      nodeMeshById.clear()
+      for (const view of activeViews) {
+        nodeMeshById.set(view.site.id, view.sphere)
+      }
+      constellationNodes = activeViews.map(({ site }) => ({
+        id: site.id,
+        category: site.category,
+        point: new THREE.Vector3(),
+        links: site.links,
+      }))
+
+      if (currentHovered && !nodeMeshById.has(currentHovered.userData.site.id)) {
+        setHovered(null)
+      } else {
+        relationIndex = findRelationIndex()
+      }
+      rebuildConstellation()
+      moveNodesTo(targets)
+    }
+
+    setSites(sitesRef.current)
+
+    const setDestinations = (nextDestinations: GalaxyDestination[]) => {
+      if (nextDestinations === appliedDestinations) {
+        return
+      }
+      appliedDestinations = nextDestinations
+      for (const view of destinationViews) {
+        disposeDestinationView(view)
+      }
+      destinationViews = nextDestinations.map((destination, index) => {
+        const view = createDestinationView(destination, index, nextDestinations.length, {
+          glowTexture: starSprite,
+          color: appliedTheme.particles.galaxyColor,
+          labelStyle: appliedTheme.labels,
+          maxPixelRatio: preset.maxPixelRatio,
+        })
+        destinationsGroup.add(view.group)
+        return view
+      })
+    }
+
+    setDestinations(destinationsRef.current)
+
+    const setGalaxy = (nextGalaxy: string) => {
+      if (nextGalaxy === appliedGalaxy) {
+        return
+      }
+      appliedGalaxy = nextGalaxy
+      const runtime = runtimeRef.current
+      if (!runtime) {
+        return
+      }
+      runtime.cameraTween?.kill()
+      runtime.targetTween?.kill()
+      runtime.targetTween = null
+      controls.enabled = false
+      // The out-and-back flight passes far beyond the orbit limits, which would clamp it.
+      controls.maxDistance = Infinity
+
+      const outward = camera.position.clone().sub(controls.target)
+      if (outward.lengthSq() < 0.0001) {
+        outward.set(0, 0, 1)
+      }
+      outward.normalize().multiplyScalar(TRAVEL_DISTANCE)
+      const arrival = new THREE.Vector3(
+        BASE_CAMERA_POSITION.x,
+        BASE_CAMERA_POSITION.y,
+        BASE_CAMERA_POSITION.z,
+      )
+        .normalize()
+        .multiplyScalar(TRAVEL_DISTANCE)
+        .applyAxisAngle(new THREE.Vector3(0, 1, 0), -0.6)
+      arrival.y += TRAVEL_DISTANCE * 0.25
+
+      const finishTravel = () => {
+        setCameraLimits(cameraLimitsRef.current)
+        controls.enabled = !runtimeRef.current?.focusLocked
+      }
+
+      runtime.cameraTween = gsap
+        .timeline({ onComplete: finishTravel, onInterrupt: finishTravel })
+        .to(
+          camera.position,
+          { x: outward.x, y: outward.y, z: outward.z, duration: TRAVEL_OUT_DURATION, ease: 'power2.in' },
+          0,
+        )
+        .to(
+          controls.target,
+          { x: 0, y: 0, z: 0, duration: TRAVEL_OUT_DURATION, ease: 'power2.inOut' },
+          0,
+        )
+        .call(() => {
+          // Deep in the fog nothing of either galaxy shows, so the field can turn unnoticed.
+          galaxyPhase += Math.PI * (0.6 + Math.random() * 0.8)
+          camera.position.copy(arrival)
+        })
+        .to(camera.position, {
+          ...BASE_CAMERA_POSITION,
+          duration: TRAVEL_IN_DURATION,
+          ease: 'expo.out',
+        })
+    }
 
     runtimeRef.current = {
       camera,
@@ -513,136 +1213,261 @@ export function GalaxyCanvas({
       nodeMeshById,
       focusLocked: false,
       pendingFocusId: null,
+      holdCamera: false,
       cameraTween: null,
       targetTween: null,
       clearHover: () => setHovered(null),
+      applyLayout,
+      applyTheme,
+      setSites,
+      setProminence,
+      setQuality,
+      setCameraLimits,
+      setGalaxy,
+      setDestinations,
+      syncRunning: () => syncRunning(),
     }
 
     let frameId = 0
+    let running = false
+    let elapsed = 0
+    let motionTime = 0
+    let statsFrames = 0
+    let statsSince = performance.now()
+
+    const updateStats = (now: number) => {
+      statsFrames += 1
+      const stats = statsRef.current
+      if (!stats || now - statsSince < STATS_INTERVAL_MS) {
+        return
+      }
+      const fps = (statsFrames * 1000) / (now - statsSince)
+      const { calls, triangles, points } = renderer.info.render
+      stats.textContent = [
+        `${fps.toFixed(0)} fps  ${(1000 / fps).toFixed(1)} ms`,
+        `${calls} draw calls  ${triangles} tris  ${points} points`,
+        `quality ${qualityLevel}${governor ? ' (auto)' : ''}${reducedMotion ? ', reduced motion' : ''}`,
+      ].join('\n')
+      statsFrames = 0
+      statsSince = now
+    }
 
     const animate = () => {
       frameId = window.requestAnimationFrame(animate)
+      const now = performance.now()
       const delta = clock.getDelta()
-      const elapsed = clock.elapsedTime
+      elapsed += delta
+      if (!reducedMotion && !editModeRef.current) {
+        motionTime += delta
+      }
+      governor?.sample(delta * 1000, now)
       const runtime = runtimeRef.current
       const isFocused = Boolean(runtime?.focusLocked)
       const disturbBlend = Math.min(1, delta * 6)
 
-      if (isFocused) {
+      if (isFocused || reducedMotion) {
         disturbWeightTarget = 0
       }
       disturbWeight += (disturbWeightTarget - disturbWeight) * disturbBlend
       disturbCurrent.lerp(disturbTarget, disturbBlend)
 
-      for (let index = 0; index < galaxyCount; index += 1) {
-        const cursor = index * 3
-        const baseX = galaxyBasePositions[cursor]
-        const baseY = galaxyBasePositions[cursor + 1]
-        const baseZ = galaxyBasePositions[cursor + 2]
-        const radius = Math.hypot(baseX, baseZ)
-        const phase = galaxyPhase[index]
-        const speed = galaxySpeed[index]
-
-        const swirl =
-          Math.sin(elapsed * speed + phase + radius * 0.22) * galaxyTwist[index]
-        const swirlCos = Math.cos(swirl)
-        const swirlSin = Math.sin(swirl)
-        const pulse =
-          1 +
-          Math.sin(elapsed * (speed * 0.72) + phase * 1.7 + radius * 0.08) *
-            galaxyPulse[index]
-
-        const x = (baseX * swirlCos - baseZ * swirlSin) * pulse
-        const z = (baseX * swirlSin + baseZ * swirlCos) * pulse
-        const y =
-          baseY +
-          Math.sin(elapsed * (speed * 1.38) + phase + radius * 0.19) *
-            galaxyAmplitude[index]
-
-        let disturbedX = x
-        let disturbedY = y
-        let disturbedZ = z
-
-        if (disturbWeight > 0.001) {
-          const dx = disturbedX - disturbCurrent.x
-          const dy = disturbedY - disturbCurrent.y
-          const dz = disturbedZ - disturbCurrent.z
-          const distSq = dx * dx + dy * dy + dz * dz
-          const radiusSq = DISTURB_RADIUS * DISTURB_RADIUS
-
-          if (distSq < radiusSq) {
-            const dist = Math.sqrt(distSq) + 0.0001
-            const falloff = 1 - dist / DISTURB_RADIUS
-            const force = falloff * falloff * DISTURB_INTENSITY * disturbWeight
-            const wave = Math.sin(elapsed * 2.15 + phase + radius * 0.11)
-
-            disturbedX += (-dz / dist) * force
-            disturbedZ += (dx / dist) * force
-            disturbedY += wave * force * 0.78
-          }
-        }
-
-        galaxyPositions[cursor] = disturbedX
-        galaxyPositions[cursor + 1] = disturbedY
-        galaxyPositions[cursor + 2] = disturbedZ
-      }
-      galaxyPositionAttr.needsUpdate = true
+      galaxy.uniforms.uTime.value = motionTime
+      galaxy.uniforms.uDisturbCenter.value.copy(disturbCurrent)
+      galaxy.uniforms.uDisturbWeight.value = disturbWeight
 
-      galaxyField.rotation.y = elapsed * 0.03
-      deepStars.rotation.y = elapsed * -0.016
+      galaxyField.rotation.y = motionTime * 0.03 + galaxyPhase
+      deepStars.rotation.y = motionTime * -0.016
+      destinationsGroup.rotation.y = deepStars.rotation.y
 
       if (!isFocused) {
-        constellation.rotation.y = elapsed * 0.05
-        nodesGroup.rotation.y = elapsed * 0.03
-
-        for (const child of nodesGroup.children as NodeGroup[]) {
-          child.position.y =
-            child.userData.baseY +
-            Math.sin(elapsed * child.userData.floatSpeed + child.userData.floatOffset) * 0.35
-
-          const ring = child.children[1]
-          ring.rotation.z = elapsed * 0.2
+        nodesGroup.rotation.y = motionTime * 0.03
+        constellation.rotation.y = nodesGroup.rotation.y
+
+        for (const { group, ring } of nodeViews.values()) {
+          group.position.y =
+            group.userData.baseY +
+            Math.sin(motionTime * group.userData.floatSpeed + group.userData.floatOffset) * 0.35
+          ring.rotation.z = motionTime * 0.2
         }
 
-        raycaster.setFromCamera(pointerNdc, camera)
-        const intersects = raycaster.intersectObjects(nodeMeshes, false)
-        const nextHovered = (intersects[0]?.object as NodeMesh | undefined) ?? null
-        setHovered(nextHovered)
+        // A long-pressed node keeps its card until the next touch.
+        if (hoverSource !== 'touch' || !currentHovered) {
+          const pointerHovered = pickNode()
+          const keyboardHoverId = keyboardHoverRef.current
+          const keyboardHovered = keyboardHoverId
+            ? nodeMeshById.get(keyboardHoverId) ?? null
+            : null
+
+          if (pointerHovered || !keyboardHovered) {
+            setHovered(pointerHovered)
+          } else if (currentHovered !== keyboardHovered || hoverSource !== 'keyboard') {
+            setHovered(keyboardHovered, 'keyboard')
+          } else if (projectHoverAnchor(keyboardHovered)) {
+            onHoverChange({
+              site: keyboardHovered.userData.site,
+              x: keyboardAnchor.x,
+              y: keyboardAnchor.y,
+            })
+          }
+        }
       } else if (currentHovered) {
         setHovered(null)
       }
 
-      for (const label of nodeLabels) {
+      const highlight = highlightRef.current
+      const emphasisBlend = Math.min(1, delta * 8)
+      const relationTarget = relatedIds.size > 0 ? 1 : 0
+      relationWeight += (relationTarget - relationWeight) * emphasisBlend
+      lineMaterial.opacity = 0.12 * (1 - relationWeight * 0.6)
+      intraLineMaterial.opacity = 0.36 * (1 - relationWeight * 0.6)
+      relationLineMaterial.opacity = 0.72 * relationWeight
+
+      const healthSnapshot = healthRef.current
+      for (const view of nodeViews.values()) {
+        const siteId = view.site.id
+        const target = !highlight || highlight.has(siteId) ? 1 : DIMMED_OPACITY
+        const relatedTarget = relatedIds.has(siteId) ? 1 : 0
+        const status = healthSnapshot.get(siteId)?.status ?? 'unknown'
+        const alertHex = HEALTH_ALERT_COLOR[status]
+        if (alertHex !== null) {
+          view.alertColor.setHex(alertHex)
+        }
+        view.value += (target - view.value) * emphasisBlend
+        view.related += (relatedTarget - view.related) * emphasisBlend
+        view.alert += ((alertHex === null ? 0 : 1) - view.alert) * emphasisBlend
+        view.prominence +=
+          ((appliedProminence.get(siteId) ?? 0) - view.prominence) * Math.min(1, delta * 3)
+
+        const presence = Math.max(view.presence, 0)
+        const visibility = view.value * Math.min(presence, 1)
+        const pulse = 0.5 + 0.5 * Math.sin(elapsed * (status === 'down' ? 4.2 : 2.4))
+        const healthFade = status === 'down' ? 1 - view.alert * 0.4 : 1
+        view.group.scale.setScalar(
+          Math.max(presence * view.size * (1 + view.prominence * 0.45), 0.001),
+        )
+        if (view.moons) {
+          view.moonPresence += ((view.expanded ? 0 : 1) - view.moonPresence) * emphasisBlend
+          view.moons.visible = view.moonPresence > 0.01
+          view.moons.rotation.y = motionTime * 0.5 + view.group.userData.floatOffset
+          view.moons.scale.setScalar(Math.max(view.moonPresence, 0.001))
+          view.moonMaterial.opacity = visibility * view.moonPresence
+        }
+        view.sphere.material.emissive
+          .copy(view.baseEmissive)
+          .lerp(view.alertColor, view.alert * (0.25 + 0.25 * pulse))
+        view.sphere.material.opacity = visibility * healthFade
+        view.ring.material.color.copy(ringColor).lerp(view.alertColor, view.alert)
+        view.ring.material.opacity =
+          (0.24 + view.related * 0.5 + view.alert * 0.35 * pulse) * visibility
+        view.ring.scale.setScalar(1 + view.alert * 0.14 * pulse)
+
+        const { label, labelBox } = view
         label.sprite.getWorldPosition(tempLabelWorld)
         const distance = camera.position.distanceTo(tempLabelWorld)
         const scale = THREE.MathUtils.clamp(3.1 - distance * 0.045, 0.72, 2.35)
-        label.sprite.scale.set(label.aspect * scale, scale, 1)
-        label.material.opacity = THREE.MathUtils.clamp(1.04 - distance * 0.012, 0.24, 0.95)
+        setLabelScale(label, scale)
+        const labelBase = THREE.MathUtils.clamp(1.04 - distance * 0.012, 0.24, 0.95)
+        label.material.opacity = Math.min(1, labelBase + view.prominence * 0.2) * visibility
+
+        labelBox.clear = true
+        tempLabelScreen.copy(tempLabelWorld).project(camera)
+        if (visibility < 0.05 || tempLabelScreen.z > 1 || Math.abs(tempLabelScreen.x) > 1.2) {
+          continue
+        }
+        // Sprites face the camera, so their size on screen only depends on distance.
+        const pixelsPerUnit =
+          viewport.height /
+          (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2)) * Math.max(distance, 0.001))
+        const groupScale = view.group.scale.x
+        const halfWidth = (label.sprite.scale.x * groupScale * pixelsPerUnit) / 2
+        const x = ((tempLabelScreen.x + 1) / 2) * viewport.width
+        const y = ((1 - tempLabelScreen.y) / 2) * viewport.height
+        labelBox.left = x - halfWidth
+        labelBox.right = x + halfWidth
+        labelBox.bottom = y
+        labelBox.top = y - label.sprite.scale.y * groupScale * pixelsPerUnit
+        labelBox.priority =
+          (view.sphere === currentHovered ? HOVERED_LABEL_PRIORITY : 0) +
+          view.related * 10 +
+          view.value * 5 +
+          view.prominence * 4 -
+          distance * 0.05
+        labelQueue.push(labelBox)
+      }
+
+      declutterLabels(labelQueue)
+      labelQueue.length = 0
+      const labelFade = Math.min(1, delta * LABEL_FADE_RATE)
+      for (const view of nodeViews.values()) {
+        view.labelClear += ((view.labelBox.clear ? 1 : 0) - view.labelClear) * labelFade
+        view.label.material.opacity *= view.labelClear
       }
 
       controls.update()
       renderer.render(scene, camera)
+      updateStats(now)
     }
 
-    animate()
+    const syncRunning = () => {
+      const shouldRun = !document.hidden && !pausedRef.current
+      if (shouldRun === running) {
+        return
+      }
+      running = shouldRun
+      if (running) {
+        // Drop the time spent paused so motion resumes where it stopped.
+        clock.getDelta()
+        statsFrames = 0
+        statsSince = performance.now()
+        governor?.reset()
+        animate()
+      } else {
+        window.cancelAnimationFrame(frameId)
+      }
+    }
+
+    document.addEventListener('visibilitychange', syncRunning)
+    syncRunning()
 
     return () => {
       const runtime = runtimeRef.current
       runtime?.cameraTween?.kill()
       runtime?.targetTween?.kill()
+      layoutTween?.kill()
+      themeTween?.kill()
+      crossLines.geometry.dispose()
+      intraLines.geometry.dispose()
+      relationLines.geometry.dispose()
 
       controls.removeEventListener('start', onControlStart)
-      renderer.domElement.removeEventListener('pointermove', onPointerMove)
-      renderer.domElement.removeEventListener('pointerdown', onPointerDown)
-      renderer.domElement.removeEventListener('click', onClick)
+      container.removeEventListener('pointermove', onPointerMove)
+      container.removeEventListener('pointerdown', onPointerDown)
+      container.removeEventListener('click', onClick)
+      container.removeEventListener('contextmenu', onContextMenu)
       window.removeEventListener('pointerup', onPointerUp)
-      renderer.domElement.removeEventListener('pointerleave', onPointerLeave)
-      window.removeEventListener('resize', onResize)
+      container.removeEventListener('pointerleave', onPointerLeave)
+      container.removeEventListener('wheel', onWheel)
+      window.removeEventListener('keydown', onKeyDown)
+      resizeObserver.disconnect()
+      reducedMotionQuery.removeEventListener('change', onReducedMotionChange)
+      pixelRatioQuery.removeEventListener('change', onPixelRatioChange)
+      document.removeEventListener('visibilitychange', syncRunning)
 
       window.cancelAnimationFrame(frameId)
+      window.clearTimeout(longPressTimer)
       controls.dispose()
       renderer.dispose()
-      renderer.domElement.style.cursor = 'default'
+      sphereGeometry.dispose()
+      container.style.cursor = 'default'
+
+      for (const view of nodeViews.values()) {
+        gsap.killTweensOf(view)
+        disposeSiteNodeView(view)
+      }
+
+      for (const view of destinationViews) {
+        disposeDestinationView(view)
+      }
 
       for (const resource of disposableResources) {
         resource.dispose()
@@ -654,7 +1479,51 @@ export function GalaxyCanvas({
 
       runtimeRef.current = null
     }
-  }, [onFocusComplete, onHoverChange, onNodeSelect, sites])
+  }, [onDestinationSelect, onFocusCancel, onFocusComplete, onHoverChange, onNodeMove, onNodeSelect])
+
+  useEffect(() => {
+    sitesRef.current = sceneSites
+    runtimeRef.current?.setSites(sceneSites)
+  }, [sceneSites])
+
+  useEffect(() => {
+    prominenceRef.current = prominence
+    runtimeRef.current?.setProminence(prominence)
+  }, [prominence])
+
+  useEffect(() => {
+    layoutRef.current = layout
+    runtimeRef.current?.applyLayout(layout)
+  }, [layout])
+
+  useEffect(() => {
+    themeRef.current = theme
+    runtimeRef.current?.applyTheme(theme)
+  }, [theme])
+
+  useEffect(() => {
+    qualityRef.current = quality
+    runtimeRef.current?.setQuality(quality)
+  }, [quality])
+
+  useEffect(() => {
+    cameraLimitsRef.current = cameraLimits
+    runtimeRef.current?.setCameraLimits(cameraLimits)
+  }, [cameraLimits])
+
+  useEffect(() => {
+    editModeRef.current = editMode
+  }, [editMode])
+
+  useEffect(() => {
+    destinationsRef.current = destinations
+    runtimeRef.current?.setDestinations(destinations)
+  }, [destinations])
+
+  useEffect(() => {
+    pausedRef.current = paused
+    runtimeRef.current?.syncRunning()
+  }, [paused])
 
   useEffect(() => {
     const runtime = runtimeRef.current
@@ -662,10 +1531,24 @@ export function GalaxyCanvas({
       return
     }
 
+    // An edit to the focused site hands us a new object for the same id; stay where we are.
+    if (focusSite && runtime.focusLocked && runtime.pendingFocusId === focusSite.id) {
+      return
+    }
+
+    const redirecting = Boolean(runtime.pendingFocusId && runtime.cameraTween?.isActive())
     runtime.cameraTween?.kill()
     runtime.targetTween?.kill()
 
     if (focusSite) {
+      const transition = {
+        ...DEFAULT_FOCUS_TRANSITION,
+        ...focusTransitionRef.current,
+        ...focusSite.focus,
+      }
+      const duration = transition.durationMs / 1000
+      const ease = redirecting ? REDIRECT_EASE : transition.ease
+      runtime.holdCamera = false
       runtime.pendingFocusId = focusSite.id
       runtime.focusLocked = true
       runtime.clearHover()
@@ -689,28 +1572,97 @@ export function GalaxyCanvas({
       approachDirection.normalize()
       const destination = focusTarget
         .clone()
-        .addScaledVector(approachDirection, FOCUS_DISTANCE)
+        .addScaledVector(approachDirection, transition.distance)
 
       runtime.cameraTween = gsap.to(runtime.camera.position, {
         x: destination.x,
         y: destination.y,
         z: destination.z,
-        duration: FOCUS_DURATION,
-        ease: 'expo.inOut',
+        duration,
+        ease,
       })
 
       runtime.targetTween = gsap.to(runtime.controls.target, {
         x: focusTarget.x,
         y: focusTarget.y,
         z: focusTarget.z,
-        duration: FOCUS_DURATION,
-        ease: 'expo.inOut',
+        duration,
+        ease,
         onUpdate: () => {
           runtime.controls.update()
         },
         onComplete: () => {
+          // Killed tweens never complete, so only the latest target can get here; the lookup
+          // hands over the site as it is now if it was edited during the flight.
           if (runtimeRef.current?.pendingFocusId === focusSite.id) {
-            onFocusComplete(focusSite)
+            onFocusComplete(sitesRef.current.find((site) => site.id === focusSite.id) ?? focusSite)
+          }
+        },
+      })
+      return
+    }
+
+    if (runtime.holdCamera) {
+      runtime.holdCamera = false
+      runtime.pendingFocusId = null
+      runtime.focusLocked = false
+      runtime.controls.enabled = true
+      return
+    }
+
+    if (cameraShot) {
+      runtime.pendingFocusId = null
+      // Sites stay still under a site shot; a view is a place to look around from once reached.
+      runtime.focusLocked = true
+      runtime.controls.enabled = false
+      runtime.clearHover()
+      onHoverChange({ site: null, x: 0, y: 0 })
+
+      const shotTarget = new THREE.Vector3()
+      const shotPosition = new THREE.Vector3()
+      if (cameraShot.kind === 'site') {
+        const { site } = cameraShot
+        shotTarget.set(site.position.x, site.position.y, site.position.z)
+        const targetNode = runtime.nodeMeshById.get(site.id)
+        if (targetNode) {
+          targetNode.updateWorldMatrix(true, false)
+          targetNode.getWorldPosition(shotTarget)
+        }
+        const approachDirection = runtime.camera.position.clone().sub(shotTarget)
+        if (approachDirection.lengthSq() < 0.0001) {
+          approachDirection.set(0, 0, 1)
+        }
+        approachDirection.normalize()
+        // Lift the approach a little so neighbours spread out below the stop instead of behind it.
+        approachDirection.y += 0.35
+        shotPosition.copy(shotTarget).addScaledVector(approachDirection.normalize(), SHOT_DISTANCE)
+      } else {
+        const { position, target } = cameraShot.view
+        shotTarget.set(target.x, target.y, target.z)
+        shotPosition.set(position.x, position.y, position.z)
+      }
+
+      runtime.cameraTween = gsap.to(runtime.camera.position, {
+        x: shotPosition.x,
+        y: shotPosition.y,
+        z: shotPosition.z,
+        duration: SHOT_DURATION,
+        ease: 'power2.inOut',
+      })
+
+      runtime.targetTween = gsap.to(runtime.controls.target, {
+        x: shotTarget.x,
+        y: shotTarget.y,
+        z: shotTarget.z,
+        duration: SHOT_DURATION,
+        ease: 'power2.inOut',
+        onUpdate: () => {
+          runtime.controls.update()
+        },
+        onComplete: () => {
+          if (cameraShot.kind === 'view') {
+            runtime.focusLocked = false
+            runtime.controls.enabled = true
           }
         },
       })
@@ -739,7 +1691,37 @@ export function GalaxyCanvas({
         runtime.controls.update()
       },
     })
-  }, [focusSite, onFocusComplete, onHoverChange])
+  }, [cameraShot, focusSite, onFocusComplete, onHoverChange])
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      getCameraView: () => {
+        const runtime = runtimeRef.current
+        if (!runtime) {
+          return null
+        }
+        const { position } = runtime.camera
+        const { target } = runtime.controls
+        return {
+          position: { x: position.x, y: position.y, z: position.z },
+          target: { x: target.x, y: target.y, z: target.z },
+        }
+      },
+    }),
+    [],
+  )
 
-  return <div className="canvas-container" ref={containerRef} />
+  // Declared after the focus effect so a switch that also clears the focus ends up travelling.
+  useEffect(() => {
+    galaxyIdRef.current = galaxyId
+    runtimeRef.current?.setGalaxy(galaxyId)
+  }, [galaxyId])
+
+  return (
+    <>
+      <div className="canvas-container" ref={containerRef} />
+      {showStats ? <pre className="render-stats" ref={statsRef} aria-hidden /> : null}
+    </>
+  )
 }
@@ -0,0 +1,37 @@
+import { useI18n } from '../hooks/useI18n'
+import type { Translate } from '../i18n/messages'
+import type { SiteHealth } from '../services/healthChecker'
+
+interface HealthBadgeProps {
+  health: SiteHealth | undefined
+  compact?: boolean
+}
+
+const describeHealth = (health: SiteHealth | undefined, t: Translate): string => {
+  if (!health || health.status === 'unknown') {
+    return t('health.unknown')
+  }
+  const latency =
+    health.latencyMs === null
+      ? t('health.noResponse')
+      : t('health.latency', { ms: health.latencyMs })
+  return `${t(`health.${health.status}`)} · ${latency}`
+}
+
+export function HealthBadge({ health, compact = false }: HealthBadgeProps) {
+  const { locale, t } = useI18n()
+  const status = health?.status ?? 'unknown'
+  const checkedAt = health?.checkedAt
+    ? new Date(health.checkedAt).toLocaleTimeString(locale)
+    : null
+
+  return (
+    <span
+      className={`health-badge is-${status} ${compact ? 'compact' : ''}`}
+      title={checkedAt ? t('health.lastChecked', { time: checkedAt }) : undefined}
+    >
+      <span className="health-dot" aria-hidden />
+      {describeHealth(health, t)}
+    </span>
+  )
+}
@@ -0,0 +1,106 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { translateCategory } from '../i18n/messages'
+import type { HealthSnapshot } from '../services/healthChecker'
+import type { SiteNode } from '../types/navigation'
+import { hostnameOf } from '../utils/url'
+import { EnvironmentBadge } from './EnvironmentBadge'
+import { HealthBadge } from './HealthBadge'
+
+interface HoverCardProps {
+  site: SiteNode | null
+  x: number
+  y: number
+  health: HealthSnapshot
+}
+
+// Hovering close orbs passes through gaps between them; the delays keep the card from blinking.
+const SHOW_DELAY_MS = 140
+const SWITCH_DELAY_MS = 70
+const HIDE_DELAY_MS = 180
+const EDGE_MARGIN = 12
+const POINTER_GAP = 16
+
+const toHex = (color: number): string => `#${color.toString(16).padStart(6, '0')}`
+
+export function HoverCard({ site, x, y, health }: HoverCardProps) {
+  const { t } = useI18n()
+  const [shown, setShown] = useState<SiteNode | null>(null)
+  // What the card renders; it outlives `shown` so the fade-out still has content.
+  const [content, setContent] = useState<SiteNode | null>(null)
+  const [anchor, setAnchor] = useState({ x, y })
+  const cardRef = useRef<HTMLDivElement>(null)
+
+  if (shown && shown !== content) {
+    setContent(shown)
+  }
+
+  // The card keeps its last anchor while it waits to hide or switch.
+  if (site && site === shown && (anchor.x !== x || anchor.y !== y)) {
+    setAnchor({ x, y })
+  }
+
+  useEffect(() => {
+    if (site === shown) {
+      return
+    }
+    const delay = site ? (shown ? SWITCH_DELAY_MS : SHOW_DELAY_MS) : HIDE_DELAY_MS
+    const timer = window.setTimeout(() => setShown(site), delay)
+    return () => {
+      window.clearTimeout(timer)
+    }
+  }, [shown, site])
+
+  useLayoutEffect(() => {
+    const card = cardRef.current
+    if (!card || !content) {
+      return
+    }
+    const { offsetWidth: width, offsetHeight: height } = card
+    const left = Math.min(
+      Math.max(anchor.x - width / 2, EDGE_MARGIN),
+      window.innerWidth - width - EDGE_MARGIN,
+    )
+    // Above the pointer by default, flipped below when that would leave the top of the screen.
+    const above = anchor.y - height - POINTER_GAP
+    const top =
+      above >= EDGE_MARGIN
+        ? above
+        : Math.min(anchor.y + POINTER_GAP, window.innerHeight - height - EDGE_MARGIN)
+    card.style.left = `${Math.max(left, EDGE_MARGIN)}px`
+    card.style.top = `${Math.max(top, EDGE_MARGIN)}px`
+  }, [anchor, content])
+
+  const siteHealth = content ? health.get(content.id) : undefined
+
+  return (
+    <div ref={cardRef} className={`hover-card ${shown ? 'visible' : ''}`} aria-hidden>
+      {content ? (
+        <>
+          <div className="hover-card-header">
+            <span className="hover-card-name">{content.name}</span>
+            <span className="hover-card-category" style={{ borderColor: toHex(content.color) }}>
+              <span className="hover-card-swatch" style={{ background: toHex(content.color) }} />
+              {translateCategory(t, content.category)}
+            </span>
+          </div>
+          {content.description ? (
+            <p className="hover-card-description">{content.description}</p>
+          ) : null}
+          <div className="hover-card-meta">
+            <span className="hover-card-host">{hostnameOf(content.url)}</span>
+            {content.environment ? <EnvironmentBadge environment={content.environment} /> : null}
+            {siteHealth ? <HealthBadge health={siteHealth} compact /> : null}
+          </div>
+          {content.tags ? (
+            <ul className="hover-card-tags">
+              {content.tags.map((tag) => (
+                <li key={tag}>{tag}</li>
+              ))}
+            </ul>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  )
+}
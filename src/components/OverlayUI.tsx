@@ -1,37 +1,289 @@
 import { useState } from 'react'
+import type { EnvironmentProfile } from '../data/environments'
+import { LAYOUT_MODES, type LayoutMode } from '../data/layouts'
+import type { Tour, Viewpoint } from '../data/tours'
+import type { Workspace } from '../data/workspaces'
+import { useI18n } from '../hooks/useI18n'
+import { LOCALES, type Locale } from '../i18n/messages'
+import type { HealthSnapshot } from '../services/healthChecker'
+import { THEME_PREFERENCES, type ThemePreference } from '../theme/themes'
+import { HoverCard } from './HoverCard'
+import { ViewMenu } from './ViewMenu'
 import type { SiteNode } from '../types/navigation'
 
 interface OverlayUIProps {
   hoveredSite: SiteNode | null
+  health: HealthSnapshot
   tooltipX: number
   tooltipY: number
+  layout: LayoutMode
+  onLayoutChange: (layout: LayoutMode) => void
+  themePreference: ThemePreference
+  onThemePreferenceChange: (preference: ThemePreference) => void
+  openTabCount: number
+  onReopenTabs: () => void
+  favoriteSites: SiteNode[]
+  recentSites: SiteNode[]
+  onSiteOpen: (siteId: string) => void
+  onExportUsage: () => void
+  onResetUsage: () => void
+  editMode: boolean
+  onEditModeChange: (enabled: boolean) => void
+  workspaces: Workspace[]
+  activeWorkspaceId: string | null
+  onWorkspaceChange: (workspaceId: string) => void
+  environments: EnvironmentProfile[]
+  activeEnvironmentId: string
+  onEnvironmentChange: (environmentId: string) => void
+  onLocaleChange: (locale: Locale) => void
+  viewpoints: Viewpoint[]
+  savedViewpointIds: ReadonlySet<string>
+  activeViewpointId: string | null
+  tours: Tour[]
+  onViewpointSelect: (viewpointId: string | null) => void
+  onViewpointSave: (name: string) => void
+  onViewpointDelete: (viewpointId: string) => void
+  onTourStart: (tourId: string) => void
+  /** The focused site and its ancestors, outermost first; empty while nothing is focused. */
+  breadcrumbs: SiteNode[]
+  onBreadcrumbSelect: (siteId: string | null) => void
 }
 
-export function OverlayUI({ hoveredSite, tooltipX, tooltipY }: OverlayUIProps) {
+export function OverlayUI({
+  hoveredSite,
+  health,
+  tooltipX,
+  tooltipY,
+  layout,
+  onLayoutChange,
+  themePreference,
+  onThemePreferenceChange,
+  openTabCount,
+  onReopenTabs,
+  favoriteSites,
+  recentSites,
+  onSiteOpen,
+  onExportUsage,
+  onResetUsage,
+  editMode,
+  onEditModeChange,
+  workspaces,
+  activeWorkspaceId,
+  onWorkspaceChange,
+  environments,
+  activeEnvironmentId,
+  onEnvironmentChange,
+  onLocaleChange,
+  viewpoints,
+  savedViewpointIds,
+  activeViewpointId,
+  tours,
+  onViewpointSelect,
+  onViewpointSave,
+  onViewpointDelete,
+  onTourStart,
+  breadcrumbs,
+  onBreadcrumbSelect,
+}: OverlayUIProps) {
+  const { locale, t } = useI18n()
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId)
   const [avatarSrc, setAvatarSrc] = useState('/avatar.png')
+  const favoriteIds = new Set(favoriteSites.map((site) => site.id))
+  const shortcuts = [
+    ...favoriteSites,
+    ...recentSites.filter((site) => !favoriteIds.has(site.id)),
+  ]
+  // Plain sites are one level deep, so the trail only shows once a system is involved.
+  const showBreadcrumbs = breadcrumbs.length > 1 || Boolean(breadcrumbs[0]?.childIds)
 
   return (
-    <section className="overlay-layer" aria-hidden>
+    <section className={`overlay-layer ${showBreadcrumbs ? 'has-breadcrumbs' : ''}`}>
       <header className="brand">
         <div className="brand-avatar-frame">
           <img
             className="brand-avatar"
             src={avatarSrc}
-            alt="Wingflow avatar"
+            alt={t('brand.avatar')}
             onError={() => setAvatarSrc('/logo.svg')}
           />
         </div>
         <div className="brand-texts">
           <h1 className="brand-title">Orbnav</h1>
-          <p className="brand-subtitle">Wingflow</p>
+          <p className="brand-subtitle">{activeWorkspace?.name ?? 'Wingflow'}</p>
         </div>
       </header>
-      <div
-        className={`hover-tooltip ${hoveredSite ? 'visible' : ''}`}
-        style={{ left: tooltipX, top: tooltipY }}
-      >
-        {hoveredSite?.name ?? ''}
+      {showBreadcrumbs ? (
+        <nav className="breadcrumbs" aria-label={t('breadcrumbs.label')}>
+          <ol className="breadcrumbs-list">
+            <li>
+              <button
+                type="button"
+                className="breadcrumbs-item"
+                onClick={() => onBreadcrumbSelect(null)}
+              >
+                {activeWorkspace?.name ?? t('breadcrumbs.galaxy')}
+              </button>
+            </li>
+            {breadcrumbs.map((site, index) => (
+              <li key={site.id}>
+                {index === breadcrumbs.length - 1 ? (
+                  <span className="breadcrumbs-item is-current" aria-current="location">
+                    {site.name}
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    className="breadcrumbs-item"
+                    onClick={() => onBreadcrumbSelect(site.id)}
+                  >
+                    {site.name}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        </nav>
+      ) : null}
+      {shortcuts.length > 0 ? (
+        <nav className="recent-strip" aria-label={t('overlay.shortcuts')}>
+          <ul className="recent-list">
+            {shortcuts.map((site) => (
+              <li key={site.id}>
+                <button
+                  type="button"
+                  className={`recent-chip ${favoriteIds.has(site.id) ? 'is-favorite' : ''}`}
+                  onClick={() => onSiteOpen(site.id)}
+                >
+                  {favoriteIds.has(site.id) ? <span aria-label={t('overlay.favorite')}>★ </span> : null}
+                  {site.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="recent-actions">
+            <button type="button" className="recent-action" onClick={onExportUsage}>
+              {t('overlay.exportUsage')}
+            </button>
+            <button
+              type="button"
+              className="recent-action"
+              onClick={() => {
+                if (window.confirm(t('overlay.resetUsageConfirm'))) {
+                  onResetUsage()
+                }
+              }}
+            >
+              {t('overlay.resetUsage')}
+            </button>
+          </div>
+        </nav>
+      ) : null}
+      <div className="overlay-controls">
+        {openTabCount > 0 ? (
+          <button type="button" className="overlay-button" onClick={onReopenTabs}>
+            {t('overlay.openTabs', { count: openTabCount })}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className={`overlay-button ${editMode ? 'active' : ''}`}
+          aria-pressed={editMode}
+          onClick={() => onEditModeChange(!editMode)}
+        >
+          {editMode ? t('overlay.doneEditing') : t('overlay.editSites')}
+        </button>
+        <ViewMenu
+          viewpoints={viewpoints}
+          savedIds={savedViewpointIds}
+          activeViewpointId={activeViewpointId}
+          tours={tours}
+          onViewpointSelect={onViewpointSelect}
+          onViewpointSave={onViewpointSave}
+          onViewpointDelete={onViewpointDelete}
+          onTourStart={onTourStart}
+        />
+        {workspaces.length > 1 ? (
+          <div className="segmented-control" role="radiogroup" aria-label={t('overlay.workspace')}>
+            {workspaces.map((workspace) => (
+              <button
+                key={workspace.id}
+                type="button"
+                role="radio"
+                aria-checked={workspace.id === activeWorkspaceId}
+                className={`segmented-option ${workspace.id === activeWorkspaceId ? 'active' : ''}`}
+                onClick={() => {
+                  if (workspace.id !== activeWorkspaceId) {
+                    onWorkspaceChange(workspace.id)
+                  }
+                }}
+              >
+                {workspace.name}
+              </button>
+            ))}
+          </div>
+        ) : null}
+        {environments.length > 1 ? (
+          <div className="segmented-control" role="radiogroup" aria-label={t('overlay.environment')}>
+            {environments.map((environment) => (
+              <button
+                key={environment.id}
+                type="button"
+                role="radio"
+                aria-checked={environment.id === activeEnvironmentId}
+                className={`segmented-option ${environment.id === activeEnvironmentId ? 'active' : ''}`}
+                title={`${environment.protocol}://${environment.baseDomain}`}
+                onClick={() => onEnvironmentChange(environment.id)}
+              >
+                {environment.name}
+              </button>
+            ))}
+          </div>
+        ) : null}
+        <div className="segmented-control" role="radiogroup" aria-label={t('overlay.layout')}>
+          {LAYOUT_MODES.map((mode) => (
+            <button
+              key={mode.id}
+              type="button"
+              role="radio"
+              aria-checked={layout === mode.id}
+              className={`segmented-option ${layout === mode.id ? 'active' : ''}`}
+              onClick={() => onLayoutChange(mode.id)}
+            >
+              {t(`layout.${mode.id}`)}
+            </button>
+          ))}
+        </div>
+        <div className="segmented-control" role="radiogroup" aria-label={t('overlay.theme')}>
+          {THEME_PREFERENCES.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              role="radio"
+              aria-checked={themePreference === option.id}
+              className={`segmented-option ${themePreference === option.id ? 'active' : ''}`}
+              onClick={() => onThemePreferenceChange(option.id)}
+            >
+              {t(`theme.${option.id}`)}
+            </button>
+          ))}
+        </div>
+        <div className="segmented-control" role="radiogroup" aria-label={t('overlay.language')}>
+          {LOCALES.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              role="radio"
+              lang={option.id}
+              aria-checked={locale === option.id}
+              className={`segmented-option ${locale === option.id ? 'active' : ''}`}
+              onClick={() => onLocaleChange(option.id)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </div>
+      <HoverCard site={hoveredSite} x={tooltipX} y={tooltipY} health={health} />
     </section>
   )
 }
@@ -1,74 +1,369 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { MAX_SPLIT_PANES } from '../hooks/usePreviewWorkspace'
+import { useSwipeToDismiss } from '../hooks/useSwipeToDismiss'
+import type { HealthSnapshot } from '../services/healthChecker'
 import type { SiteNode } from '../types/navigation'
+import {
+  inspectLoadedFrame,
+  rememberFrameBlocked,
+  wasFrameBlocked,
+} from '../utils/frameDetection'
+import { EnvironmentBadge } from './EnvironmentBadge'
+import { HealthBadge } from './HealthBadge'
+import { SiteCard, type SiteCardReason } from './SiteCard'
 
 interface PreviewModalProps {
-  site: SiteNode | null
+  open: boolean
+  tabs: SiteNode[]
+  activeSite: SiteNode | null
+  panes: SiteNode[]
+  health: HealthSnapshot
+  onActivateTab: (siteId: string) => void
+  onCloseTab: (siteId: string) => void
+  onPaneCountChange: (count: number) => void
   onClose: () => void
+  onCoverChange?: (covered: boolean) => void
+  favoriteIds?: ReadonlySet<string>
+  onToggleFavorite?: (siteId: string) => void
 }
 
+const FRAME_LOAD_TIMEOUT_MS = 12_000
+// Keep in sync with the bottom-sheet media query in index.css.
+const SHEET_QUERY = '(max-width: 640px)'
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'iframe',
+  'input:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',')
+
 interface PreviewFrameProps {
   site: SiteNode
 }
 
+type FrameState = 'loading' | 'ready' | SiteCardReason
+
+const initialFrameState = (site: SiteNode): FrameState => {
+  if (site.embed === 'card' || site.embed === 'newtab') {
+    return site.embed
+  }
+  return wasFrameBlocked(site.url) ? 'blocked' : 'loading'
+}
+
 function PreviewFrame({ site }: PreviewFrameProps) {
-  const [isLoading, setIsLoading] = useState(true)
+  const { t } = useI18n()
+  const [state, setState] = useState<FrameState>(() => initialFrameState(site))
+  const frameRef = useRef<HTMLIFrameElement | null>(null)
+  const isLoading = state === 'loading'
+
+  useEffect(() => {
+    if (!isLoading) {
+      return
+    }
+    const timer = window.setTimeout(() => setState('timeout'), FRAME_LOAD_TIMEOUT_MS)
+    return () => {
+      window.clearTimeout(timer)
+    }
+  }, [isLoading])
+
+  if (state !== 'loading' && state !== 'ready') {
+    return (
+      <div className="preview-content">
+        <SiteCard
+          site={site}
+          reason={state}
+          onRetry={site.embed && site.embed !== 'iframe' ? undefined : () => setState('loading')}
+        />
+      </div>
+    )
+  }
 
   return (
     <div className="preview-content">
       <iframe
+        ref={frameRef}
         className={`preview-frame ${isLoading ? 'is-loading' : 'is-ready'}`}
         src={site.url}
         title={site.name}
         loading="lazy"
         referrerPolicy="no-referrer-when-downgrade"
-        onLoad={() => setIsLoading(false)}
-        onError={() => setIsLoading(false)}
+        onLoad={() => {
+          // Only a refusal left on a readable blank document can be told apart; cross-origin
+          // frames are assumed to have loaded.
+          if (frameRef.current && inspectLoadedFrame(frameRef.current) === 'blocked') {
+            rememberFrameBlocked(site.url)
+            setState('blocked')
+          } else {
+            setState('ready')
+          }
+        }}
+        onError={() => setState('blocked')}
       />
       <div className={`frame-loader ${isLoading ? 'visible' : ''}`} aria-hidden={!isLoading}>
         <div className="loader-ring" />
-        <p className="loader-text">Loading {site.name} ...</p>
+        <p className="loader-text">{t('preview.loading', { name: site.name })}</p>
       </div>
+      {state === 'ready' ? (
+        <button type="button" className="frame-fallback-toggle" onClick={() => setState('card')}>
+          {t('preview.showDetails')}
+        </button>
+      ) : null}
     </div>
   )
 }
 
-export function PreviewModal({ site, onClose }: PreviewModalProps) {
+export function PreviewModal({
+  open,
+  tabs,
+  activeSite,
+  panes,
+  health,
+  onActivateTab,
+  onCloseTab,
+  onPaneCountChange,
+  onClose,
+  onCoverChange,
+  favoriteIds,
+  onToggleFavorite,
+}: PreviewModalProps) {
+  const { t } = useI18n()
+  const dialogRef = useRef<HTMLElement | null>(null)
+  const cardRef = useRef<HTMLElement | null>(null)
+  const closeButtonRef = useRef<HTMLButtonElement | null>(null)
+  const isOpen = open && Boolean(activeSite)
+  const paneIndexById = new Map(panes.map((site, index) => [site.id, index]))
+  const isSplit = panes.length > 1
+  const activeHealth = activeSite ? health.get(activeSite.id) : undefined
+  const isFavorite = activeSite ? Boolean(favoriteIds?.has(activeSite.id)) : false
+  const [loadedIds, setLoadedIds] = useState<ReadonlySet<string>>(() => new Set())
+  const swipe = useSwipeToDismiss(onClose, SHEET_QUERY)
+
+  if (isOpen && panes.some((site) => !loadedIds.has(site.id))) {
+    setLoadedIds(new Set([...loadedIds, ...panes.map((site) => site.id)]))
+  }
+
+  useEffect(() => {
+    if (!isOpen) {
+      return
+    }
+
+    const returnFocusTo = document.activeElement as HTMLElement | null
+    closeButtonRef.current?.focus()
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault()
+        onClose()
+        return
+      }
+
+      if (event.key !== 'Tab' || !dialogRef.current) {
+        return
+      }
+
+      const focusable = Array.from(
+        dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+      ).filter((element) => element.offsetParent !== null)
+      if (focusable.length === 0) {
+        event.preventDefault()
+        return
+      }
+
+      const first = focusable[0]
+      const last = focusable[focusable.length - 1]
+      const active = document.activeElement
+
+      if (event.shiftKey && (active === first || !dialogRef.current.contains(active))) {
+        event.preventDefault()
+        last.focus()
+      } else if (!event.shiftKey && (active === last || !dialogRef.current.contains(active))) {
+        event.preventDefault()
+        first.focus()
+      }
+    }
+
+    document.addEventListener('keydown', onKeyDown)
+    return () => {
+      document.removeEventListener('keydown', onKeyDown)
+      if (returnFocusTo?.isConnected) {
+        returnFocusTo.focus()
+      }
+    }
+  }, [isOpen, onClose])
+
+  useEffect(() => {
+    const card = cardRef.current
+    if (!isOpen || !card || !onCoverChange) {
+      return
+    }
+
+    const measure = () => {
+      const rect = card.getBoundingClientRect()
+      onCoverChange(
+        rect.left <= 0 &&
+          rect.top <= 0 &&
+          rect.right >= window.innerWidth &&
+          rect.bottom >= window.innerHeight,
+      )
+    }
+
+    const observer = new ResizeObserver(measure)
+    observer.observe(card)
+    card.addEventListener('transitionend', measure)
+    window.addEventListener('resize', measure)
+    return () => {
+      observer.disconnect()
+      card.removeEventListener('transitionend', measure)
+      window.removeEventListener('resize', measure)
+      onCoverChange(false)
+    }
+  }, [isOpen, onCoverChange])
+
   return (
     <section
-      className={`preview-modal ${site ? 'active' : ''}`}
+      ref={dialogRef}
+      className={`preview-modal ${isOpen ? 'active' : ''}`}
       role="dialog"
       aria-modal="true"
-      aria-hidden={!site}
+      aria-hidden={!isOpen}
+      aria-label={activeSite?.name}
+      inert={!isOpen}
       onClick={(event) => {
         if (event.target === event.currentTarget) {
           onClose()
         }
       }}
     >
-      <article className="preview-card">
-        <header className="preview-header">
-          {site ? (
-            <a
-              className="preview-title-link"
-              href={site.url}
-              target="_blank"
-              rel="noreferrer"
+      <article
+        ref={cardRef}
+        className={`preview-card ${isSplit ? 'is-split' : ''} ${
+          swipe.dragging ? 'is-dragging' : ''
+        }`}
+        style={swipe.offset > 0 ? { transform: `translateY(${swipe.offset}px)` } : undefined}
+      >
+        <div className="preview-sheet-handle" aria-hidden {...swipe.handlers} />
+        <header className="preview-header" {...swipe.handlers}>
+          <div className="preview-heading">
+            {activeSite ? (
+              <a
+                className="preview-title-link"
+                href={activeSite.url}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {activeSite.name}
+              </a>
+            ) : (
+              <span className="preview-title">{t('preview.untitled')}</span>
+            )}
+            {activeSite?.environment ? (
+              <EnvironmentBadge environment={activeSite.environment} />
+            ) : null}
+            {activeSite && activeHealth ? <HealthBadge health={activeHealth} /> : null}
+            {activeSite && onToggleFavorite ? (
+              <button
+                type="button"
+                className={`favorite-toggle ${isFavorite ? 'active' : ''}`}
+                aria-pressed={isFavorite}
+                aria-label={isFavorite ? t('preview.removeFavorite') : t('preview.addFavorite')}
+                onClick={() => onToggleFavorite(activeSite.id)}
+              >
+                {isFavorite ? '★' : '☆'}
+              </button>
+            ) : null}
+          </div>
+          <div className="preview-header-actions">
+            <div className="pane-count" role="group" aria-label={t('preview.panes')}>
+              {Array.from({ length: MAX_SPLIT_PANES }, (_, index) => index + 1).map((count) => (
+                <button
+                  key={count}
+                  type="button"
+                  className={`pane-count-option ${panes.length === count ? 'active' : ''}`}
+                  disabled={count > 1 && count > tabs.length}
+                  aria-pressed={panes.length === count}
+                  onClick={() => onPaneCountChange(count)}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+            <button
+              ref={closeButtonRef}
+              type="button"
+              className="close-btn"
+              onClick={onClose}
+              aria-label={t('preview.close')}
             >
-              {site.name}
-            </a>
-          ) : (
-            <span className="preview-title">Website Title</span>
-          )}
-          <button
-            type="button"
-            className="close-btn"
-            onClick={onClose}
-            aria-label="关闭预览"
-          >
-            ×
-          </button>
+              ×
+            </button>
+          </div>
         </header>
-        {site ? <PreviewFrame key={site.id} site={site} /> : <div className="preview-content" />}
+        {tabs.length > 1 ? (
+          <div className="preview-tabs" role="tablist" aria-label={t('preview.tabs')}>
+            {tabs.map((site) => (
+              <div
+                key={site.id}
+                className={`preview-tab ${site.id === activeSite?.id ? 'active' : ''} ${
+                  paneIndexById.has(site.id) ? 'is-visible' : ''
+                }`}
+              >
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={site.id === activeSite?.id}
+                  className="preview-tab-label"
+                  onClick={() => onActivateTab(site.id)}
+                >
+                  {site.name}
+                </button>
+                <button
+                  type="button"
+                  className="preview-tab-close"
+                  aria-label={t('preview.closeTab', { name: site.name })}
+                  onClick={() => onCloseTab(site.id)}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        <div
+          className="preview-workspace"
+          style={{ gridTemplateColumns: `repeat(${Math.max(panes.length, 1)}, minmax(0, 1fr))` }}
+        >
+          {tabs.map((site) => {
+            const paneIndex = paneIndexById.get(site.id)
+            if (!loadedIds.has(site.id)) {
+              return null
+            }
+            return (
+              <div
+                key={site.id}
+                className={`preview-pane ${site.id === activeSite?.id ? 'active' : ''}`}
+                hidden={paneIndex === undefined}
+                style={{ order: paneIndex }}
+                onFocus={() => {
+                  if (isSplit && site.id !== activeSite?.id) {
+                    onActivateTab(site.id)
+                  }
+                }}
+                onPointerDown={() => {
+                  if (isSplit && site.id !== activeSite?.id) {
+                    onActivateTab(site.id)
+                  }
+                }}
+              >
+                {isSplit ? <div className="preview-pane-title">{site.name}</div> : null}
+                {/* A new url (another environment) is another page, so its verdict starts over. */}
+                <PreviewFrame key={site.url} site={site} />
+              </div>
+            )
+          })}
+        </div>
       </article>
     </section>
   )
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { translateCategory, type MessageKey } from '../i18n/messages'
+import type { SiteNode } from '../types/navigation'
+import { hostnameOf } from '../utils/url'
+
+export type SiteCardReason = 'blocked' | 'timeout' | 'card' | 'newtab'
+
+interface SiteCardProps {
+  site: SiteNode
+  reason: SiteCardReason
+  onRetry?: () => void
+}
+
+const REASON_TEXT: Record<SiteCardReason, MessageKey | null> = {
+  blocked: 'siteCard.blocked',
+  timeout: 'siteCard.timeout',
+  card: null,
+  newtab: 'siteCard.newtab',
+}
+
+const toHex = (color: number): string => `#${color.toString(16).padStart(6, '0')}`
+
+const faviconUrl = (url: string): string | null => {
+  try {
+    return new URL('/favicon.ico', url).toString()
+  } catch {
+    return null
+  }
+}
+
+export function SiteCard({ site, reason, onRetry }: SiteCardProps) {
+  const { t } = useI18n()
+  const reasonKey = REASON_TEXT[reason]
+  const [faviconFailed, setFaviconFailed] = useState(false)
+  const [screenshotFailed, setScreenshotFailed] = useState(false)
+  const favicon = faviconUrl(site.url)
+  const accent = toHex(site.color)
+
+  return (
+    <div className="site-card">
+      {site.screenshot && !screenshotFailed ? (
+        <img
+          className="site-card-screenshot"
+          src={site.screenshot}
+          alt=""
+          onError={() => setScreenshotFailed(true)}
+        />
+      ) : null}
+      <div className="site-card-body">
+        <div className="site-card-identity">
+          {favicon && !faviconFailed ? (
+            <img
+              className="site-card-favicon"
+              src={favicon}
+              alt=""
+              onError={() => setFaviconFailed(true)}
+            />
+          ) : (
+            <span className="site-card-favicon is-placeholder" style={{ background: accent }} />
+          )}
+          <div>
+            <h2 className="site-card-name">{site.name}</h2>
+            <p className="site-card-host">{hostnameOf(site.url)}</p>
+          </div>
+        </div>
+        <span className="site-card-category" style={{ borderColor: accent }}>
+          {translateCategory(t, site.category)}
+        </span>
+        {site.description ? <p className="site-card-description">{site.description}</p> : null}
+        {reasonKey ? <p className="site-card-reason">{t(reasonKey)}</p> : null}
+        <div className="site-card-actions">
+          <a className="site-card-open" href={site.url} target="_blank" rel="noreferrer">
+            {t('siteCard.open')}
+          </a>
+          {onRetry ? (
+            <button type="button" className="site-card-retry" onClick={onRetry}>
+              {t('siteCard.retry')}
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  )
+}
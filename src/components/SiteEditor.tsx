@@ -0,0 +1,339 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import {
+  ManifestError,
+  toManifest,
+  validateManifest,
+  type ManifestIssue,
+  type SiteManifest,
+} from '../data/manifest'
+import { applySiteEdits, findSeed, listSeeds, seedPath, type SiteEdit } from '../data/siteEdits'
+import { PRODUCTION_ENVIRONMENT_ID, type EnvironmentProfile } from '../data/environments'
+import { CATEGORY_BASE_HUE, buildSites, type SiteSeed } from '../data/sites'
+import { useI18n } from '../hooks/useI18n'
+import { translateCategory } from '../i18n/messages'
+import { isTypingTarget } from '../utils/keyboard'
+import { EnvironmentBadge } from './EnvironmentBadge'
+
+export type EditorSelection = { kind: 'site'; id: string } | { kind: 'new' } | null
+
+interface SiteEditorProps {
+  /** The manifest with local edits applied; edits are checked against all of it, tours included. */
+  manifest: SiteManifest
+  /** The environment derived URLs are previewed in. */
+  environment?: EnvironmentProfile
+  showEnvironment?: boolean
+  selection: EditorSelection
+  hasLocalEdits: boolean
+  canUndo: boolean
+  canRedo: boolean
+  onSelectionChange: (selection: EditorSelection) => void
+  onEdit: (edit: SiteEdit) => void
+  onUndo: () => void
+  onRedo: () => void
+  onExport: () => void
+  onDiscard: () => void
+  onClose: () => void
+}
+
+interface SiteForm {
+  id: string
+  name: string
+  category: string
+  url: string
+  description: string
+  customColor: boolean
+  color: string
+}
+
+const CATEGORIES = Object.keys(CATEGORY_BASE_HUE)
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`
+
+const formFromSeed = (seed: SiteSeed | undefined): SiteForm => {
+  const base = seed ?? { id: 'new-site', name: '', category: CATEGORIES[0] }
+  return {
+    id: seed?.id ?? '',
+    name: base.name,
+    category: base.category,
+    url: base.url ?? '',
+    description: base.description ?? '',
+    customColor: base.color !== undefined,
+    color: toHex(buildSites([base])[0].color),
+  }
+}
+
+// Explicit url and color win over the derived ones, so empty fields are left out of the seed.
+const seedFromForm = (form: SiteForm, base: SiteSeed | undefined): SiteSeed => ({
+  ...base,
+  id: form.id.trim(),
+  name: form.name.trim(),
+  category: form.category,
+  url: form.url.trim() || undefined,
+  description: form.description.trim() || undefined,
+  color: form.customColor ? Number.parseInt(form.color.slice(1), 16) : undefined,
+})
+
+export function SiteEditor({
+  manifest,
+  environment,
+  showEnvironment = false,
+  selection,
+  hasLocalEdits,
+  canUndo,
+  canRedo,
+  onSelectionChange,
+  onEdit,
+  onUndo,
+  onRedo,
+  onExport,
+  onDiscard,
+  onClose,
+}: SiteEditorProps) {
+  const { t } = useI18n()
+  const seeds = manifest.sites
+  const selectedSeed =
+    selection?.kind === 'site' ? findSeed(seeds, selection.id) : undefined
+  // Full id of the selected seed, which for a child includes its parents' ids.
+  const selectedId = selection?.kind === 'site' && selectedSeed ? selection.id : null
+  const [form, setForm] = useState(() => formFromSeed(selectedSeed))
+  const [issues, setIssues] = useState<ManifestIssue[]>([])
+  const [formSource, setFormSource] = useState({ selection, seed: selectedSeed })
+
+  if (formSource.selection !== selection || formSource.seed !== selectedSeed) {
+    setFormSource({ selection, seed: selectedSeed })
+    setForm(formFromSeed(selectedSeed))
+    setIssues([])
+  }
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || isTypingTarget(event.target)) {
+        return
+      }
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        onUndo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        onRedo()
+      }
+    }
+
+    document.addEventListener('keydown', onKeyDown)
+    return () => {
+      document.removeEventListener('keydown', onKeyDown)
+    }
+  }, [onRedo, onUndo])
+
+  const updateField = <K extends keyof SiteForm>(field: K, value: SiteForm[K]) => {
+    setForm((current) => ({ ...current, [field]: value }))
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const seed = seedFromForm(form, selectedSeed)
+    const edit: SiteEdit = { kind: 'upsert', previousId: selectedId, seed }
+    const nextId = seedPath(selectedId, seed)
+    const next = applySiteEdits(manifest, [edit])
+    try {
+      validateManifest(toManifest(next))
+    } catch (error) {
+      const index = next.sites.indexOf(seed)
+      const entryIssues =
+        error instanceof ManifestError
+          ? error.issues.filter((issue) => issue.index === index || issue.id === nextId)
+          : []
+      const message = error instanceof Error ? error.message : String(error)
+      setIssues(entryIssues.length > 0 ? entryIssues : [{ index, field: '(manifest)', message }])
+      return
+    }
+    onEdit(edit)
+    onSelectionChange({ kind: 'site', id: nextId })
+  }
+
+  const handleDelete = () => {
+    if (
+      selectedSeed &&
+      selectedId &&
+      window.confirm(t('editor.deleteConfirm', { name: selectedSeed.name }))
+    ) {
+      onEdit({ kind: 'remove', id: selectedId })
+      onSelectionChange(null)
+    }
+  }
+
+  const isEditing = selection !== null && (selection.kind === 'new' || selectedSeed !== undefined)
+  const derivedUrl = buildSites([seedFromForm({ ...form, url: '' }, selectedSeed)], {
+    environment,
+  })[0].url
+
+  return (
+    <aside className="site-editor" aria-label={t('editor.label')}>
+      <header className="site-editor-header">
+        <h2 className="site-editor-title">{t('editor.title')}</h2>
+        {showEnvironment && environment ? (
+          <EnvironmentBadge
+            environment={{
+              name: environment.name,
+              production: environment.id === PRODUCTION_ENVIRONMENT_ID,
+            }}
+          />
+        ) : null}
+        <button type="button" className="close-btn" onClick={onClose} aria-label={t('editor.close')}>
+          ×
+        </button>
+      </header>
+      <div className="site-editor-toolbar">
+        <button
+          type="button"
+          className="site-editor-action"
+          onClick={() => onSelectionChange({ kind: 'new' })}
+        >
+          {t('editor.addSite')}
+        </button>
+        <button type="button" className="site-editor-action" disabled={!canUndo} onClick={onUndo}>
+          {t('editor.undo')}
+        </button>
+        <button type="button" className="site-editor-action" disabled={!canRedo} onClick={onRedo}>
+          {t('editor.redo')}
+        </button>
+        <button type="button" className="site-editor-action" onClick={onExport}>
+          {t('editor.export')}
+        </button>
+        <button
+          type="button"
+          className="site-editor-action"
+          disabled={!hasLocalEdits}
+          onClick={() => {
+            if (window.confirm(t('editor.discardConfirm'))) {
+              onDiscard()
+            }
+          }}
+        >
+          {t('editor.discard')}
+        </button>
+      </div>
+      <label className="site-editor-field">
+        <span>{t('editor.site')}</span>
+        <select
+          value={selection?.kind === 'site' ? selection.id : ''}
+          onChange={(event) =>
+            onSelectionChange(event.target.value ? { kind: 'site', id: event.target.value } : null)
+          }
+        >
+          <option value="">{t('editor.choose')}</option>
+          {listSeeds(seeds).map(({ id, seed, depth }) => (
+            <option key={id} value={id}>
+              {`${'— '.repeat(depth)}${seed.name}`}
+            </option>
+          ))}
+        </select>
+      </label>
+      {isEditing ? (
+        <form className="site-editor-form" onSubmit={handleSubmit}>
+          <label className="site-editor-field">
+            <span>{t('editor.id')}</span>
+            <input
+              value={form.id}
+              required
+              onChange={(event) => updateField('id', event.target.value)}
+            />
+          </label>
+          <label className="site-editor-field">
+            <span>{t('editor.name')}</span>
+            <input
+              value={form.name}
+              required
+              onChange={(event) => updateField('name', event.target.value)}
+            />
+          </label>
+          <label className="site-editor-field">
+            <span>{t('editor.category')}</span>
+            <select
+              value={form.category}
+              onChange={(event) => updateField('category', event.target.value)}
+            >
+              {CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {translateCategory(t, category)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="site-editor-field">
+            <span>{t('editor.url')}</span>
+            <input
+              type="url"
+              value={form.url}
+              placeholder={derivedUrl}
+              onChange={(event) => updateField('url', event.target.value)}
+            />
+          </label>
+          <label className="site-editor-field">
+            <span>{t('editor.description')}</span>
+            <textarea
+              rows={2}
+              value={form.description}
+              onChange={(event) => updateField('description', event.target.value)}
+            />
+          </label>
+          <div className="site-editor-field site-editor-color">
+            <label>
+              <input
+                type="checkbox"
+                checked={form.customColor}
+                onChange={(event) => updateField('customColor', event.target.checked)}
+              />
+              <span>{t('editor.customColor')}</span>
+            </label>
+            <input
+              type="color"
+              aria-label={t('editor.color')}
+              value={form.color}
+              disabled={!form.customColor}
+              onChange={(event) => updateField('color', event.target.value)}
+            />
+          </div>
+          {selectedId && selectedSeed?.position ? (
+            <div className="site-editor-pin">
+              <span>{t('editor.pinned')}</span>
+              <button
+                type="button"
+                className="site-editor-action"
+                onClick={() => onEdit({ kind: 'pin', id: selectedId })}
+              >
+                {t('editor.unpin')}
+              </button>
+            </div>
+          ) : selectedSeed ? (
+            <p className="site-editor-hint">{t('editor.pinHint')}</p>
+          ) : null}
+          {issues.length > 0 ? (
+            <ul className="catalog-issues">
+              {issues.map((issue) => (
+                <li key={`${issue.field}:${issue.message}`}>
+                  <span className="catalog-issue-where">{issue.field}</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          <div className="site-editor-buttons">
+            <button type="submit" className="catalog-retry">
+              {selectedSeed ? t('editor.save') : t('editor.add')}
+            </button>
+            {selectedSeed ? (
+              <button type="button" className="site-editor-action" onClick={handleDelete}>
+                {t('editor.delete')}
+              </button>
+            ) : null}
+          </div>
+        </form>
+      ) : (
+        <p className="site-editor-hint">
+          {t('editor.idleHint')}
+        </p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,76 @@
+import { useRef, type KeyboardEvent as ReactKeyboardEvent } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { translateCategory } from '../i18n/messages'
+import type { SiteNode } from '../types/navigation'
+
+interface SiteNavigatorProps {
+  sites: SiteNode[]
+  onActiveChange: (siteId: string | null) => void
+  onSelect: (site: SiteNode) => void
+}
+
+const NEXT_KEYS = new Set(['ArrowDown', 'ArrowRight'])
+const PREVIOUS_KEYS = new Set(['ArrowUp', 'ArrowLeft'])
+
+export function SiteNavigator({ sites, onActiveChange, onSelect }: SiteNavigatorProps) {
+  const { t } = useI18n()
+  const listRef = useRef<HTMLUListElement | null>(null)
+
+  const focusButtonAt = (index: number) => {
+    const buttons = listRef.current?.querySelectorAll<HTMLButtonElement>('button')
+    if (!buttons || buttons.length === 0) {
+      return
+    }
+    buttons[(index + buttons.length) % buttons.length].focus()
+  }
+
+  const onKeyDown = (event: ReactKeyboardEvent<HTMLButtonElement>, index: number) => {
+    if (NEXT_KEYS.has(event.key)) {
+      event.preventDefault()
+      focusButtonAt(index + 1)
+    } else if (PREVIOUS_KEYS.has(event.key)) {
+      event.preventDefault()
+      focusButtonAt(index - 1)
+    } else if (event.key === 'Home') {
+      event.preventDefault()
+      focusButtonAt(0)
+    } else if (event.key === 'End') {
+      event.preventDefault()
+      focusButtonAt(sites.length - 1)
+    }
+  }
+
+  if (sites.length === 0) {
+    return null
+  }
+
+  return (
+    <nav className="visually-hidden" aria-label={t('navigator.label')}>
+      <ul
+        ref={listRef}
+        onBlur={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+            onActiveChange(null)
+          }
+        }}
+      >
+        {sites.map((site, index) => (
+          <li key={site.id}>
+            <button
+              type="button"
+              onFocus={() => onActiveChange(site.id)}
+              onKeyDown={(event) => onKeyDown(event, index)}
+              onClick={() => onSelect(site)}
+            >
+              {site.name}
+              <span>
+                , {translateCategory(t, site.category)}
+                {site.description ? `. ${site.description}` : ''}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  )
+}
@@ -0,0 +1,64 @@
+import { useEffect } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import type { TourPlayback } from '../hooks/useTourPlayer'
+
+interface TourBarProps {
+  playback: TourPlayback
+  onPrevious: () => void
+  onNext: () => void
+  onTogglePause: () => void
+  onExit: () => void
+}
+
+export function TourBar({ playback, onPrevious, onNext, onTogglePause, onExit }: TourBarProps) {
+  const { t } = useI18n()
+  const { stop, stops, index, paused, idle } = playback
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onExit()
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => {
+      window.removeEventListener('keydown', onKeyDown)
+    }
+  }, [onExit])
+
+  // The screensaver ends on any input, so it shows the caption without controls.
+  return (
+    <section
+      className={`tour-bar ${idle ? 'is-idle' : ''}`}
+      aria-label={idle ? t('tour.screensaver') : playback.tour.name}
+    >
+      <div className="tour-bar-text" aria-live="polite">
+        {idle ? null : (
+          <p className="tour-bar-meta">
+            {playback.tour.name} · {t('tour.progress', { current: index + 1, total: stops.length })}
+          </p>
+        )}
+        <h2 className="tour-bar-title">{stop.title}</h2>
+        {stop.caption ? <p className="tour-bar-caption">{stop.caption}</p> : null}
+      </div>
+      {idle ? (
+        <p className="tour-bar-hint">{t('tour.screensaverHint')}</p>
+      ) : (
+        <div className="tour-bar-controls">
+          <button type="button" onClick={onPrevious} disabled={index === 0}>
+            {t('tour.previous')}
+          </button>
+          <button type="button" aria-pressed={paused} onClick={onTogglePause}>
+            {paused ? t('tour.resume') : t('tour.pause')}
+          </button>
+          <button type="button" onClick={onNext}>
+            {t('tour.next')}
+          </button>
+          <button type="button" onClick={onExit}>
+            {t('tour.exit')}
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
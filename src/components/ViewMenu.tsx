@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react'
+import type { Tour, Viewpoint } from '../data/tours'
+import { useI18n } from '../hooks/useI18n'
+
+interface ViewMenuProps {
+  viewpoints: Viewpoint[]
+  /** Viewpoints the user saved, which can be deleted again unlike the manifest's own. */
+  savedIds: ReadonlySet<string>
+  activeViewpointId: string | null
+  tours: Tour[]
+  onViewpointSelect: (viewpointId: string | null) => void
+  onViewpointSave: (name: string) => void
+  onViewpointDelete: (viewpointId: string) => void
+  onTourStart: (tourId: string) => void
+}
+
+export function ViewMenu({
+  viewpoints,
+  savedIds,
+  activeViewpointId,
+  tours,
+  onViewpointSelect,
+  onViewpointSave,
+  onViewpointDelete,
+  onTourStart,
+}: ViewMenuProps) {
+  const { t } = useI18n()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const menuRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+    const onPointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    document.addEventListener('keydown', onKeyDown)
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown)
+      document.removeEventListener('keydown', onKeyDown)
+    }
+  }, [open])
+
+  return (
+    <div className="view-menu" ref={menuRef}>
+      {open ? (
+        <div className="view-menu-panel" role="group" aria-label={t('views.label')}>
+          <p className="view-menu-heading">{t('views.viewpoints')}</p>
+          <ul className="view-menu-list">
+            <li>
+              <button
+                type="button"
+                className={`view-menu-option ${activeViewpointId === null ? 'active' : ''}`}
+                aria-pressed={activeViewpointId === null}
+                onClick={() => onViewpointSelect(null)}
+              >
+                {t('views.overview')}
+              </button>
+            </li>
+            {viewpoints.map((viewpoint) => (
+              <li key={viewpoint.id}>
+                <button
+                  type="button"
+                  className={`view-menu-option ${activeViewpointId === viewpoint.id ? 'active' : ''}`}
+                  aria-pressed={activeViewpointId === viewpoint.id}
+                  onClick={() => onViewpointSelect(viewpoint.id)}
+                >
+                  {viewpoint.name}
+                </button>
+                {savedIds.has(viewpoint.id) ? (
+                  <button
+                    type="button"
+                    className="view-menu-delete"
+                    aria-label={t('views.delete', { name: viewpoint.name })}
+                    onClick={() => onViewpointDelete(viewpoint.id)}
+                  >
+                    ×
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+          <form
+            className="view-menu-save"
+            onSubmit={(event) => {
+              event.preventDefault()
+              onViewpointSave(name.trim() || t('views.defaultName', { count: viewpoints.length + 1 }))
+              setName('')
+            }}
+          >
+            <input
+              value={name}
+              placeholder={t('views.namePlaceholder')}
+              aria-label={t('views.namePlaceholder')}
+              onChange={(event) => setName(event.target.value)}
+            />
+            <button type="submit" className="view-menu-option">
+              {t('views.save')}
+            </button>
+          </form>
+          {tours.length > 0 ? (
+            <>
+              <p className="view-menu-heading">{t('views.tours')}</p>
+              <ul className="view-menu-list">
+                {tours.map((tour) => (
+                  <li key={tour.id}>
+                    <button
+                      type="button"
+                      className="view-menu-option"
+                      onClick={() => {
+                        setOpen(false)
+                        onTourStart(tour.id)
+                      }}
+                    >
+                      ▶ {tour.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+      <button
+        type="button"
+        className={`overlay-button ${open ? 'active' : ''}`}
+        aria-expanded={open}
+        onClick={() => setOpen((current) => !current)}
+      >
+        {t('overlay.views')}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+export type EnvironmentProtocol = 'https' | 'http'
+
+export interface EnvironmentProfile {
+  id: string
+  name: string
+  baseDomain: string
+  protocol: EnvironmentProtocol
+}
+
+/** Per-site replacement for one environment: a whole URL, or a port and path on the derived host. */
+export interface SiteEnvironmentOverride {
+  url?: string
+  port?: number
+  path?: string
+}
+
+export const PRODUCTION_ENVIRONMENT_ID = 'production'
+
+/** `name` is what environment tags show, so callers that tag pass one from the message catalogs. */
+export const productionEnvironment = (
+  baseDomain: string,
+  name: string = PRODUCTION_ENVIRONMENT_ID,
+): EnvironmentProfile => ({
+  id: PRODUCTION_ENVIRONMENT_ID,
+  name,
+  baseDomain,
+  protocol: 'https',
+})
+
+/** Production first, built from the workspace domain unless the manifest declares its own. */
+export const listEnvironments = (
+  declared: EnvironmentProfile[],
+  baseDomain: string,
+  productionName: string,
+): EnvironmentProfile[] => {
+  const production =
+    declared.find((environment) => environment.id === PRODUCTION_ENVIRONMENT_ID) ??
+    productionEnvironment(baseDomain, productionName)
+  return [
+    production,
+    ...declared.filter((environment) => environment.id !== PRODUCTION_ENVIRONMENT_ID),
+  ]
+}
@@ -0,0 +1,120 @@
+import type { SiteNode, Vec3 } from '../types/navigation'
+
+export type LayoutMode = 'ring' | 'clusters' | 'spiral'
+
+export const LAYOUT_MODES: { id: LayoutMode; label: string }[] = [
+  { id: 'ring', label: 'Ring' },
+  { id: 'clusters', label: 'Clusters' },
+  { id: 'spiral', label: 'Spiral' },
+]
+
+const CLUSTER_ORBIT_RADIUS = 19
+const SPIRAL_INNER_RADIUS = 7
+const SPIRAL_OUTER_RADIUS = 26
+
+export const isLayoutMode = (value: unknown): value is LayoutMode =>
+  LAYOUT_MODES.some((mode) => mode.id === value)
+
+const createClusterPositions = (sites: SiteNode[]): Vec3[] => {
+  const categories: string[] = []
+  const members = new Map<string, number[]>()
+
+  sites.forEach((site, index) => {
+    if (!members.has(site.category)) {
+      categories.push(site.category)
+      members.set(site.category, [])
+    }
+    members.get(site.category)?.push(index)
+  })
+
+  const positions: Vec3[] = new Array(sites.length)
+
+  categories.forEach((category, categoryIndex) => {
+    const centerAngle = (categoryIndex / categories.length) * Math.PI * 2
+    const center = {
+      x: Math.cos(centerAngle) * CLUSTER_ORBIT_RADIUS,
+      y: ((categoryIndex % 3) - 1) * 3.5,
+      z: Math.sin(centerAngle) * CLUSTER_ORBIT_RADIUS,
+    }
+    const indices = members.get(category) ?? []
+    const subRadius = indices.length === 1 ? 0 : 2.4 + indices.length * 0.55
+
+    indices.forEach((siteIndex, memberIndex) => {
+      const angle = centerAngle + (memberIndex / indices.length) * Math.PI * 2
+      positions[siteIndex] = {
+        x: center.x + Math.cos(angle) * subRadius,
+        y: center.y + (memberIndex % 2 === 0 ? 0.8 : -0.8) * Math.min(1, indices.length - 1),
+        z: center.z + Math.sin(angle) * subRadius,
+      }
+    })
+  })
+
+  return positions
+}
+
+const createSpiralPosition = (index: number, total: number): Vec3 => {
+  const progress = total <= 1 ? 0 : index / (total - 1)
+  const radius = SPIRAL_INNER_RADIUS + (SPIRAL_OUTER_RADIUS - SPIRAL_INNER_RADIUS) * progress
+  const angle = progress * Math.PI * 3.2
+
+  return {
+    x: Math.cos(angle) * radius,
+    y: (progress - 0.5) * 7,
+    z: Math.sin(angle) * radius,
+  }
+}
+
+/** Lays out the top-level sites; children follow their parent through `placeChildren`. */
+export const computeLayout = (allSites: SiteNode[], mode: LayoutMode): Map<string, Vec3> => {
+  const sites = allSites.filter((site) => !site.parentId)
+  const positions =
+    mode === 'clusters'
+      ? createClusterPositions(sites)
+      : sites.map((site, index) =>
+          mode === 'spiral' ? createSpiralPosition(index, sites.length) : site.position,
+        )
+
+  return new Map(
+    sites.map((site, index) => [site.id, site.pinned ? site.position : positions[index]]),
+  )
+}
+
+const PROMINENCE_PULL = 0.3
+
+/** Draws prominent unpinned sites toward the core on the horizontal plane, keeping their height. */
+export const pullTowardCore = (
+  sites: SiteNode[],
+  targets: Map<string, Vec3>,
+  prominence: ReadonlyMap<string, number>,
+): Map<string, Vec3> => {
+  const pulled = new Map(targets)
+  for (const site of sites) {
+    const position = targets.get(site.id)
+    if (site.pinned || site.parentId || !position) {
+      continue
+    }
+    const factor = 1 - (prominence.get(site.id) ?? 0) * PROMINENCE_PULL
+    pulled.set(site.id, { x: position.x * factor, y: position.y, z: position.z * factor })
+  }
+  return pulled
+}
+
+/** Keeps each child at its built offset from wherever its parent ended up. */
+export const placeChildren = (sites: SiteNode[], targets: Map<string, Vec3>): Map<string, Vec3> => {
+  const placed = new Map(targets)
+  const siteById = new Map(sites.map((site) => [site.id, site]))
+  // Parents come before their children, so a parent's target is settled by the time we reach them.
+  for (const site of sites) {
+    const parent = site.parentId ? siteById.get(site.parentId) : undefined
+    const anchor = parent ? placed.get(parent.id) : undefined
+    if (!parent || !anchor) {
+      continue
+    }
+    placed.set(site.id, {
+      x: anchor.x + site.position.x - parent.position.x,
+      y: anchor.y + site.position.y - parent.position.y,
+      z: anchor.z + site.position.z - parent.position.z,
+    })
+  }
+  return placed
+}
@@ -0,0 +1,831 @@
+import {
+  PRODUCTION_ENVIRONMENT_ID,
+  type EnvironmentProfile,
+  type EnvironmentProtocol,
+  type SiteEnvironmentOverride,
+} from './environments'
+import {
+  CATEGORY_BASE_HUE,
+  SITE_PATH_SEPARATOR,
+  type SiteSeed,
+  type SiteTranslation,
+} from './sites'
+import type { Tour, TourStop, Viewpoint } from './tours'
+import type {
+  FocusTransition,
+  SiteEmbedMode,
+  SiteLink,
+  SiteLinkKind,
+  Vec3,
+} from '../types/navigation'
+
+export const MANIFEST_URL: string = import.meta.env.VITE_SITES_MANIFEST ?? '/sites.json'
+
+const SUBDOMAIN_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{6})$/i
+const SITE_LINK_KINDS: SiteLinkKind[] = ['uses', 'depends', 'related']
+const SITE_EMBED_MODES: SiteEmbedMode[] = ['iframe', 'card', 'newtab']
+const ENVIRONMENT_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/i
+const TOUR_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/i
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i
+const HOST_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i
+// gsap ease names such as `none`, `expo.inOut` or `back.out(1.7)`.
+const EASE_PATTERN = /^([a-z]+\d?)(\.(in|out|inOut))?(\([\d.,\s-]*\))?$/
+// The eases built into gsap core; plugin eases such as `rough` are not registered here.
+const GSAP_EASES = new Set([
+  'none',
+  'linear',
+  'power0',
+  'power1',
+  'power2',
+  'power3',
+  'power4',
+  'quad',
+  'cubic',
+  'quart',
+  'quint',
+  'strong',
+  'back',
+  'bounce',
+  'circ',
+  'elastic',
+  'expo',
+  'sine',
+  'steps',
+])
+const MAX_FOCUS_DURATION_MS = 10_000
+const MAX_FOCUS_DISTANCE = 60
+const ENVIRONMENT_PROTOCOLS: EnvironmentProtocol[] = ['https', 'http']
+
+export interface ManifestIssue {
+  index: number
+  id?: string
+  field: string
+  message: string
+}
+
+export class ManifestError extends Error {
+  issues: ManifestIssue[]
+
+  constructor(message: string, issues: ManifestIssue[] = []) {
+    super(message)
+    this.name = 'ManifestError'
+    this.issues = issues
+  }
+}
+
+export interface SiteManifest {
+  version: number
+  /** Extra environments next to production, e.g. staging or local. */
+  environments: EnvironmentProfile[]
+  sites: SiteSeed[]
+  /** Named camera poses that tours and the view menu can jump to. */
+  viewpoints: Viewpoint[]
+  tours: Tour[]
+  /** Focus transition for every site that does not set its own. */
+  focus?: FocusTransition
+}
+
+type RawEntry = Record<string, unknown>
+
+const isRecord = (value: unknown): value is RawEntry =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const parsed = new URL(value)
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+const parseColor = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffff) {
+    return value
+  }
+  if (typeof value === 'string') {
+    const match = HEX_COLOR_PATTERN.exec(value.trim())
+    if (match) {
+      return Number.parseInt(match[1], 16)
+    }
+  }
+  return null
+}
+
+const readLinks = (
+  entry: RawEntry,
+  id: string,
+  report: (field: string, message: string) => void,
+): SiteLink[] | undefined => {
+  if (entry.links === undefined) {
+    return undefined
+  }
+  if (!Array.isArray(entry.links)) {
+    report('links', 'must be a list of { to, kind } objects')
+    return undefined
+  }
+
+  const links: SiteLink[] = []
+  entry.links.forEach((link: unknown, linkIndex) => {
+    const field = `links[${linkIndex}]`
+    if (!isRecord(link) || typeof link.to !== 'string' || link.to.trim() === '') {
+      report(field, 'must be an object with a non-empty "to" id')
+      return
+    }
+    if (link.to === id) {
+      report(`${field}.to`, 'cannot point at the site itself')
+      return
+    }
+    const kind = link.kind ?? 'related'
+    if (!SITE_LINK_KINDS.includes(kind as SiteLinkKind)) {
+      report(`${field}.kind`, `"${String(kind)}" is not one of ${SITE_LINK_KINDS.join(', ')}`)
+      return
+    }
+    links.push({ to: link.to, kind: kind as SiteLinkKind })
+  })
+  return links
+}
+
+const readPosition = (
+  entry: RawEntry,
+  report: (field: string, message: string) => void,
+): Vec3 | undefined => {
+  if (entry.position === undefined) {
+    return undefined
+  }
+  const position = entry.position
+  if (
+    !isRecord(position) ||
+    !['x', 'y', 'z'].every(
+      (axis) => typeof position[axis] === 'number' && Number.isFinite(position[axis]),
+    )
+  ) {
+    report('position', 'must be an object with numeric x, y and z')
+    return undefined
+  }
+  return { x: position.x as number, y: position.y as number, z: position.z as number }
+}
+
+const readEnvironmentOverrides = (
+  entry: RawEntry,
+  environmentIds: Set<string> | null,
+  report: (field: string, message: string) => void,
+): Record<string, SiteEnvironmentOverride> | undefined => {
+  if (entry.environments === undefined) {
+    return undefined
+  }
+  if (!isRecord(entry.environments)) {
+    report('environments', 'must map environment ids to { url, port, path } overrides')
+    return undefined
+  }
+
+  const overrides: Record<string, SiteEnvironmentOverride> = {}
+  for (const [environmentId, override] of Object.entries(entry.environments)) {
+    const field = `environments.${environmentId}`
+    if (environmentIds && !environmentIds.has(environmentId)) {
+      report(field, `"${environmentId}" is not a declared environment`)
+      continue
+    }
+    if (!isRecord(override)) {
+      report(field, 'must be an object with url, port or path')
+      continue
+    }
+    const { url, port, path } = override
+    if (url !== undefined && (typeof url !== 'string' || !isHttpUrl(url))) {
+      report(`${field}.url`, `"${String(url)}" is not an absolute http(s) URL`)
+      continue
+    }
+    if (
+      port !== undefined &&
+      (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535)
+    ) {
+      report(`${field}.port`, 'must be an integer between 1 and 65535')
+      continue
+    }
+    if (path !== undefined && (typeof path !== 'string' || !path.startsWith('/'))) {
+      report(`${field}.path`, 'must start with "/"')
+      continue
+    }
+    overrides[environmentId] = {
+      url: url as string | undefined,
+      port: port as number | undefined,
+      path: path as string | undefined,
+    }
+  }
+  return overrides
+}
+
+const readEnvironments = (raw: unknown, issues: ManifestIssue[]): EnvironmentProfile[] => {
+  const entries = isRecord(raw) ? raw.environments : undefined
+  if (entries === undefined) {
+    return []
+  }
+  if (!Array.isArray(entries)) {
+    issues.push({ index: -1, field: 'environments', message: 'must be a list of environments' })
+    return []
+  }
+
+  const environments: EnvironmentProfile[] = []
+  const seenIds = new Set<string>()
+  entries.forEach((entry: unknown, index) => {
+    // Environment issues are not tied to a site entry, so they carry no site index.
+    const report = (field: string, message: string, id?: string) => {
+      issues.push({ index: -1, id, field: `environments[${index}].${field}`, message })
+    }
+    if (!isRecord(entry)) {
+      report('(entry)', 'must be an object')
+      return
+    }
+    const id = typeof entry.id === 'string' ? entry.id.trim() : ''
+    const issueCount = issues.length
+    if (!ENVIRONMENT_ID_PATTERN.test(id)) {
+      report('id', 'is required and may only use letters, digits and dashes')
+    } else if (seenIds.has(id)) {
+      report('id', `duplicates an earlier environment with id "${id}"`, id)
+    } else {
+      seenIds.add(id)
+    }
+    if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+      report('name', 'is required', id)
+    }
+    if (typeof entry.baseDomain !== 'string' || !HOST_PATTERN.test(entry.baseDomain)) {
+      report('baseDomain', `"${String(entry.baseDomain)}" is not a valid host`, id)
+    }
+    const protocol = entry.protocol ?? 'https'
+    if (!ENVIRONMENT_PROTOCOLS.includes(protocol as EnvironmentProtocol)) {
+      report('protocol', `"${String(protocol)}" is not one of ${ENVIRONMENT_PROTOCOLS.join(', ')}`, id)
+    }
+    if (issues.length === issueCount) {
+      environments.push({
+        id,
+        name: entry.name as string,
+        baseDomain: entry.baseDomain as string,
+        protocol: protocol as EnvironmentProtocol,
+      })
+    }
+  })
+  return environments
+}
+
+const isVec3Record = (value: unknown): value is Vec3 =>
+  isRecord(value) &&
+  ['x', 'y', 'z'].every((axis) => typeof value[axis] === 'number' && Number.isFinite(value[axis]))
+
+const readViewpoints = (raw: unknown, issues: ManifestIssue[]): Viewpoint[] => {
+  const entries = isRecord(raw) ? raw.viewpoints : undefined
+  if (entries === undefined) {
+    return []
+  }
+  if (!Array.isArray(entries)) {
+    issues.push({ index: -1, field: 'viewpoints', message: 'must be a list of viewpoints' })
+    return []
+  }
+
+  const viewpoints: Viewpoint[] = []
+  const seenIds = new Set<string>()
+  entries.forEach((entry: unknown, index) => {
+    const report = (field: string, message: string, id?: string) => {
+      issues.push({ index: -1, id, field: `viewpoints[${index}].${field}`, message })
+    }
+    if (!isRecord(entry)) {
+      report('(entry)', 'must be an object')
+      return
+    }
+    const id = typeof entry.id === 'string' ? entry.id.trim() : ''
+    const issueCount = issues.length
+    if (!TOUR_ID_PATTERN.test(id)) {
+      report('id', 'is required and may only use letters, digits and dashes')
+    } else if (seenIds.has(id)) {
+      report('id', `duplicates an earlier viewpoint with id "${id}"`, id)
+    } else {
+      seenIds.add(id)
+    }
+    if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+      report('name', 'is required', id)
+    }
+    for (const field of ['position', 'target']) {
+      if (!isVec3Record(entry[field])) {
+        report(field, 'must be an object with numeric x, y and z', id)
+      }
+    }
+    if (issues.length === issueCount) {
+      viewpoints.push({
+        id,
+        name: entry.name as string,
+        position: entry.position as Vec3,
+        target: entry.target as Vec3,
+      })
+    }
+  })
+  return viewpoints
+}
+
+const readTourStop = (
+  stop: unknown,
+  siteIds: Set<string>,
+  viewpointIds: Set<string>,
+  report: (field: string, message: string) => void,
+): TourStop | null => {
+  if (!isRecord(stop)) {
+    report('(entry)', 'must be an object with a siteId or a viewpointId')
+    return null
+  }
+  const { siteId, viewpointId, caption, durationMs } = stop
+  if ((siteId === undefined) === (viewpointId === undefined)) {
+    report('(entry)', 'needs exactly one of siteId and viewpointId')
+    return null
+  }
+  if (siteId !== undefined && (typeof siteId !== 'string' || !siteIds.has(siteId))) {
+    report('siteId', `"${String(siteId)}" does not match any site id`)
+    return null
+  }
+  if (
+    viewpointId !== undefined &&
+    (typeof viewpointId !== 'string' || !viewpointIds.has(viewpointId))
+  ) {
+    report('viewpointId', `"${String(viewpointId)}" does not match any viewpoint id`)
+    return null
+  }
+  if (caption !== undefined && (typeof caption !== 'string' || caption.trim() === '')) {
+    report('caption', 'must be a non-empty string when present')
+    return null
+  }
+  if (
+    durationMs !== undefined &&
+    (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 1000)
+  ) {
+    report('durationMs', 'must be a number of at least 1000')
+    return null
+  }
+  return {
+    siteId: siteId as string | undefined,
+    viewpointId: viewpointId as string | undefined,
+    caption: caption as string | undefined,
+    durationMs: durationMs as number | undefined,
+  }
+}
+
+const readTours = (
+  raw: unknown,
+  siteIds: Set<string>,
+  viewpointIds: Set<string>,
+  issues: ManifestIssue[],
+): Tour[] => {
+  const entries = isRecord(raw) ? raw.tours : undefined
+  if (entries === undefined) {
+    return []
+  }
+  if (!Array.isArray(entries)) {
+    issues.push({ index: -1, field: 'tours', message: 'must be a list of tours' })
+    return []
+  }
+
+  const tours: Tour[] = []
+  const seenIds = new Set<string>()
+  entries.forEach((entry: unknown, index) => {
+    const report = (field: string, message: string, id?: string) => {
+      issues.push({ index: -1, id, field: `tours[${index}].${field}`, message })
+    }
+    if (!isRecord(entry)) {
+      report('(entry)', 'must be an object')
+      return
+    }
+    const id = typeof entry.id === 'string' ? entry.id.trim() : ''
+    const issueCount = issues.length
+    if (!TOUR_ID_PATTERN.test(id)) {
+      report('id', 'is required and may only use letters, digits and dashes')
+    } else if (seenIds.has(id)) {
+      report('id', `duplicates an earlier tour with id "${id}"`, id)
+    } else {
+      seenIds.add(id)
+    }
+    if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+      report('name', 'is required', id)
+    }
+    for (const field of ['loop', 'screensaver']) {
+      if (entry[field] !== undefined && typeof entry[field] !== 'boolean') {
+        report(field, 'must be true or false', id)
+      }
+    }
+    const stops: TourStop[] = []
+    if (!Array.isArray(entry.stops) || entry.stops.length === 0) {
+      report('stops', 'must be a non-empty list of stops', id)
+    } else {
+      entry.stops.forEach((stop: unknown, stopIndex) => {
+        const resolved = readTourStop(stop, siteIds, viewpointIds, (field, message) =>
+          report(`stops[${stopIndex}].${field}`, message, id),
+        )
+        if (resolved) {
+          stops.push(resolved)
+        }
+      })
+    }
+    if (issues.length === issueCount) {
+      tours.push({
+        id,
+        name: entry.name as string,
+        stops,
+        loop: entry.loop as boolean | undefined,
+        screensaver: entry.screensaver as boolean | undefined,
+      })
+    }
+  })
+  return tours
+}
+
+const isGsapEase = (ease: string): boolean => {
+  const match = EASE_PATTERN.exec(ease)
+  return match !== null && GSAP_EASES.has(match[1])
+}
+
+const readFocusTransition = (
+  value: unknown,
+  report: (field: string, message: string) => void,
+): FocusTransition | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+  if (!isRecord(value)) {
+    report('focus', 'must be an object with durationMs, ease or distance')
+    return undefined
+  }
+  const { durationMs, ease, distance } = value
+  const issues: [string, string][] = []
+  if (
+    durationMs !== undefined &&
+    (typeof durationMs !== 'number' || !(durationMs >= 0 && durationMs <= MAX_FOCUS_DURATION_MS))
+  ) {
+    issues.push(['durationMs', `must be a number between 0 and ${MAX_FOCUS_DURATION_MS}`])
+  }
+  if (ease !== undefined && (typeof ease !== 'string' || !isGsapEase(ease))) {
+    issues.push(['ease', `"${String(ease)}" is not a gsap ease like "expo.inOut"`])
+  }
+  if (
+    distance !== undefined &&
+    (typeof distance !== 'number' || !(distance > 0 && distance <= MAX_FOCUS_DISTANCE))
+  ) {
+    issues.push(['distance', `must be a number above 0 and at most ${MAX_FOCUS_DISTANCE}`])
+  }
+  if (issues.length > 0) {
+    for (const [field, message] of issues) {
+      report(`focus.${field}`, message)
+    }
+    return undefined
+  }
+  return {
+    durationMs: durationMs as number | undefined,
+    ease: ease as string | undefined,
+    distance: distance as number | undefined,
+  }
+}
+
+const readTags = (
+  entry: RawEntry,
+  report: (field: string, message: string) => void,
+): string[] | undefined => {
+  if (entry.tags === undefined) {
+    return undefined
+  }
+  if (
+    !Array.isArray(entry.tags) ||
+    !entry.tags.every((tag) => typeof tag === 'string' && tag.trim() !== '')
+  ) {
+    report('tags', 'must be a list of non-empty strings')
+    return undefined
+  }
+  return entry.tags.length > 0 ? (entry.tags as string[]) : undefined
+}
+
+const readTranslations = (
+  entry: RawEntry,
+  report: (field: string, message: string) => void,
+): Record<string, SiteTranslation> | undefined => {
+  if (entry.translations === undefined) {
+    return undefined
+  }
+  if (!isRecord(entry.translations)) {
+    report('translations', 'must map locales to { name, description }')
+    return undefined
+  }
+
+  const translations: Record<string, SiteTranslation> = {}
+  for (const [locale, translation] of Object.entries(entry.translations)) {
+    const field = `translations.${locale}`
+    if (!LOCALE_PATTERN.test(locale)) {
+      report(field, `"${locale}" is not a locale tag like "en" or "zh-CN"`)
+      continue
+    }
+    if (!isRecord(translation)) {
+      report(field, 'must be an object with name or description')
+      continue
+    }
+    const name = readOptionalString(translation, 'name', (key, message) =>
+      report(`${field}.${key}`, message),
+    )
+    const description = readOptionalString(translation, 'description', (key, message) =>
+      report(`${field}.${key}`, message),
+    )
+    translations[locale] = { name, description }
+  }
+  return translations
+}
+
+const readOptionalString = (
+  entry: RawEntry,
+  field: string,
+  report: (field: string, message: string) => void,
+): string | undefined => {
+  const value = entry[field]
+  if (value === undefined) {
+    return undefined
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    report(field, 'must be a non-empty string when present')
+    return undefined
+  }
+  return value
+}
+
+/** Where a nested entry sits: its parent's full id and the field path leading to it. */
+interface EntryScope {
+  parentId: string
+  field: string
+}
+
+const validateEntry = (
+  entry: unknown,
+  index: number,
+  seenIds: Set<string>,
+  environmentIds: Set<string> | null,
+  issues: ManifestIssue[],
+  scope?: EntryScope,
+): SiteSeed | null => {
+  const prefix = scope?.field ?? ''
+  if (!isRecord(entry)) {
+    issues.push({ index, field: `${prefix}(entry)`, message: 'must be an object' })
+    return null
+  }
+
+  const id = typeof entry.id === 'string' ? entry.id.trim() : ''
+  const fullId = scope && id ? `${scope.parentId}${SITE_PATH_SEPARATOR}${id}` : id
+  const issueCount = issues.length
+  const report = (field: string, message: string) => {
+    issues.push({ index, id: fullId || undefined, field: `${prefix}${field}`, message })
+  }
+
+  if (!id) {
+    report('id', 'is required')
+  } else if (id.includes(SITE_PATH_SEPARATOR)) {
+    report('id', `must not contain "${SITE_PATH_SEPARATOR}", which separates nested ids`)
+  } else if (seenIds.has(fullId)) {
+    report('id', `duplicates an earlier entry with id "${fullId}"`)
+  } else {
+    seenIds.add(fullId)
+  }
+
+  if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+    report('name', 'is required')
+  }
+
+  if (typeof entry.category !== 'string' || entry.category.trim() === '') {
+    report('category', 'is required')
+  } else if (!(entry.category in CATEGORY_BASE_HUE)) {
+    report(
+      'category',
+      `"${entry.category}" is not one of ${Object.keys(CATEGORY_BASE_HUE).join(', ')}`,
+    )
+  }
+
+  const description = readOptionalString(entry, 'description', report)
+  const subdomain = readOptionalString(entry, 'subdomain', report)
+  const url = readOptionalString(entry, 'url', report)
+  const healthUrl = readOptionalString(entry, 'healthUrl', report)
+  const screenshot = readOptionalString(entry, 'screenshot', report)
+  const embed = readOptionalString(entry, 'embed', report)
+
+  if (subdomain !== undefined && !SUBDOMAIN_PATTERN.test(subdomain)) {
+    report('subdomain', `"${subdomain}" is not a valid hostname label`)
+  }
+
+  if (url !== undefined && !isHttpUrl(url)) {
+    report('url', `"${url}" is not an absolute http(s) URL`)
+  }
+
+  if (healthUrl !== undefined && !isHttpUrl(healthUrl)) {
+    report('healthUrl', `"${healthUrl}" is not an absolute http(s) URL`)
+  }
+
+  if (screenshot !== undefined && !screenshot.startsWith('/') && !isHttpUrl(screenshot)) {
+    report('screenshot', `"${screenshot}" must be an absolute http(s) URL or a root-relative path`)
+  }
+
+  if (embed !== undefined && !SITE_EMBED_MODES.includes(embed as SiteEmbedMode)) {
+    report('embed', `"${embed}" is not one of ${SITE_EMBED_MODES.join(', ')}`)
+  }
+
+  let color: number | undefined
+  if (entry.color !== undefined) {
+    const parsed = parseColor(entry.color)
+    if (parsed === null) {
+      report('color', 'must be a 24-bit integer or a "#rrggbb" string')
+    } else {
+      color = parsed
+    }
+  }
+
+  const links = readLinks(entry, fullId, report)
+  // Children are laid out around their parent, so they take no position of their own.
+  if (scope && entry.position !== undefined) {
+    report('position', 'is not allowed on a nested site, which orbits its parent')
+  }
+  const position = scope ? undefined : readPosition(entry, report)
+  const tags = readTags(entry, report)
+  const translations = readTranslations(entry, report)
+  const focus = readFocusTransition(entry.focus, report)
+  const environments = readEnvironmentOverrides(entry, environmentIds, report)
+
+  let children: SiteSeed[] | undefined
+  if (entry.children !== undefined) {
+    if (!Array.isArray(entry.children)) {
+      report('children', 'must be a list of sites')
+    } else {
+      children = entry.children.flatMap((child: unknown, childIndex) => {
+        const seed = validateEntry(child, index, seenIds, environmentIds, issues, {
+          parentId: fullId,
+          field: `${prefix}children[${childIndex}].`,
+        })
+        return seed ? [seed] : []
+      })
+    }
+  }
+
+  if (issues.length > issueCount) {
+    return null
+  }
+
+  return {
+    id,
+    name: entry.name as string,
+    category: entry.category as string,
+    description,
+    subdomain,
+    url,
+    color,
+    links,
+    healthUrl,
+    embed: embed as SiteEmbedMode | undefined,
+    screenshot,
+    tags,
+    translations,
+    position,
+    environments,
+    focus,
+    children,
+  }
+}
+
+// Links name full ids, so they are only checked once every nested id is known.
+const findLinkIssues = (
+  site: SiteSeed,
+  id: string,
+  index: number,
+  field: string,
+  seenIds: ReadonlySet<string>,
+): ManifestIssue[] => [
+  ...(site.links ?? []).flatMap((link, linkIndex) =>
+    seenIds.has(link.to)
+      ? []
+      : [
+          {
+            index,
+            id,
+            field: `${field}links[${linkIndex}].to`,
+            message: `"${link.to}" does not match any site id`,
+          },
+        ],
+  ),
+  ...(site.children ?? []).flatMap((child, childIndex) =>
+    findLinkIssues(
+      child,
+      `${id}${SITE_PATH_SEPARATOR}${child.id}`,
+      index,
+      `${field}children[${childIndex}].`,
+      seenIds,
+    ),
+  ),
+]
+
+export const validateManifest = (raw: unknown): SiteManifest => {
+  const entries = Array.isArray(raw) ? raw : isRecord(raw) ? raw.sites : undefined
+  if (!Array.isArray(entries)) {
+    throw new ManifestError('Manifest must be a list of sites or an object with a "sites" list')
+  }
+
+  const version = isRecord(raw) && typeof raw.version === 'number' ? raw.version : 1
+  if (version !== 1) {
+    throw new ManifestError(`Unsupported manifest version ${version}`)
+  }
+
+  const issues: ManifestIssue[] = []
+  const environments = readEnvironments(raw, issues)
+  // A bare site list carries no environment declarations, so its override keys are not checked.
+  const environmentIds = Array.isArray(raw)
+    ? null
+    : new Set([PRODUCTION_ENVIRONMENT_ID, ...environments.map((environment) => environment.id)])
+  const seenIds = new Set<string>()
+  const sites: SiteSeed[] = []
+  const entryIndexById = new Map<string, number>()
+
+  entries.forEach((entry, index) => {
+    const seed = validateEntry(entry, index, seenIds, environmentIds, issues)
+    if (seed) {
+      sites.push(seed)
+      entryIndexById.set(seed.id, index)
+    }
+  })
+
+  sites.forEach((site) => {
+    issues.push(...findLinkIssues(site, site.id, entryIndexById.get(site.id) ?? -1, '', seenIds))
+  })
+
+  const viewpoints = readViewpoints(raw, issues)
+  const focus = isRecord(raw)
+    ? readFocusTransition(raw.focus, (field, message) => issues.push({ index: -1, field, message }))
+    : undefined
+  const tours = readTours(
+    raw,
+    seenIds,
+    new Set(viewpoints.map((viewpoint) => viewpoint.id)),
+    issues,
+  )
+
+  if (issues.length > 0) {
+    throw new ManifestError(
+      `Manifest has ${issues.length} invalid ${issues.length === 1 ? 'field' : 'fields'}`,
+      issues,
+    )
+  }
+
+  return { version, environments, sites, viewpoints, tours, focus }
+}
+
+const formatColor = (color: number): string => `#${color.toString(16).padStart(6, '0')}`
+
+const toRawSeed = ({ color, children, ...site }: SiteSeed): RawEntry => ({
+  ...site,
+  ...(color === undefined ? {} : { color: formatColor(color) }),
+  ...(children ? { children: children.map(toRawSeed) } : {}),
+})
+
+/** Serializes a manifest back into the shape `validateManifest` reads, colors as hex strings. */
+export const toManifest = (manifest: SiteManifest): RawEntry => ({
+  version: manifest.version,
+  ...(manifest.environments.length > 0 ? { environments: manifest.environments } : {}),
+  sites: manifest.sites.map(toRawSeed),
+  ...(manifest.viewpoints.length > 0 ? { viewpoints: manifest.viewpoints } : {}),
+  ...(manifest.tours.length > 0 ? { tours: manifest.tours } : {}),
+  ...(manifest.focus ? { focus: manifest.focus } : {}),
+})
+
+const isYamlSource = (url: string, contentType: string | null): boolean =>
+  /\.ya?ml(\?|#|$)/i.test(url) || Boolean(contentType?.includes('yaml'))
+
+export const parseManifestText = async (
+  text: string,
+  format: 'json' | 'yaml',
+): Promise<unknown> => {
+  try {
+    if (format === 'yaml') {
+      const { parse } = await import('yaml')
+      return parse(text)
+    }
+    return JSON.parse(text)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new ManifestError(`Manifest is not valid ${format.toUpperCase()}: ${reason}`)
+  }
+}
+
+export const loadManifest = async (
+  url: string = MANIFEST_URL,
+  signal?: AbortSignal,
+): Promise<SiteManifest> => {
+  let response: Response
+  try {
+    response = await fetch(url, { signal, headers: { Accept: 'application/json, application/yaml' } })
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error
+    }
+    throw new ManifestError(`Could not reach ${url}`)
+  }
+
+  if (!response.ok) {
+    throw new ManifestError(`Could not load ${url} (HTTP ${response.status})`)
+  }
+
+  const format = isYamlSource(url, response.headers.get('content-type')) ? 'yaml' : 'json'
+  const raw = await parseManifestText(await response.text(), format)
+  return validateManifest(raw)
+}
@@ -0,0 +1,221 @@
+import type { SiteManifest } from './manifest'
+import { SITE_PATH_SEPARATOR, type SiteSeed } from './sites'
+import type { Tour } from './tours'
+import type { Vec3 } from '../types/navigation'
+
+const POSITION_PRECISION = 100
+
+/** One change made in the editor, kept instead of a copy of the seeds so it replays over manifest updates. */
+export type SiteEdit =
+  | { kind: 'upsert'; previousId: string | null; seed: SiteSeed }
+  | { kind: 'remove'; id: string }
+  | { kind: 'pin'; id: string; position?: Vec3 }
+
+// A link to one of the site's children moves or goes along with it, since their ids share its prefix.
+const renameTarget = (to: string, fromId: string, toId: string | null): string | null => {
+  if (to === fromId) {
+    return toId
+  }
+  if (!to.startsWith(`${fromId}${SITE_PATH_SEPARATOR}`)) {
+    return to
+  }
+  return toId === null ? null : `${toId}${to.slice(fromId.length)}`
+}
+
+const renameLinks = (seed: SiteSeed, fromId: string, toId: string | null): SiteSeed => {
+  const children = seed.children?.map((child) => renameLinks(child, fromId, toId))
+  const renamed =
+    children && children.some((child, index) => child !== seed.children?.[index])
+      ? { ...seed, children }
+      : seed
+  if (!seed.links?.some((link) => renameTarget(link.to, fromId, toId) !== link.to)) {
+    return renamed
+  }
+  const links = seed.links.flatMap((link) => {
+    const to = renameTarget(link.to, fromId, toId)
+    return to === null ? [] : [{ ...link, to }]
+  })
+  return { ...renamed, links: links.length > 0 ? links : undefined }
+}
+
+const parentPath = (id: string): string | null => {
+  const index = id.lastIndexOf(SITE_PATH_SEPARATOR)
+  return index === -1 ? null : id.slice(0, index)
+}
+
+/** The full id `seed` ends up with once it replaces the seed stored under `previousId`. */
+export const seedPath = (previousId: string | null, seed: SiteSeed): string => {
+  const parent = previousId === null ? null : parentPath(previousId)
+  return parent === null ? seed.id : `${parent}${SITE_PATH_SEPARATOR}${seed.id}`
+}
+
+/** Looks a seed up by its full id, following nested ids into `children`. */
+export const findSeed = (seeds: SiteSeed[], id: string): SiteSeed | undefined => {
+  const [head, ...rest] = id.split(SITE_PATH_SEPARATOR)
+  let seed = seeds.find((candidate) => candidate.id === head)
+  for (const segment of rest) {
+    seed = seed?.children?.find((child) => child.id === segment)
+  }
+  return seed
+}
+
+/** Every seed with its full id, each system's children right after it. */
+export const listSeeds = (
+  seeds: SiteSeed[],
+  parentId: string | null = null,
+): { id: string; seed: SiteSeed; depth: number }[] =>
+  seeds.flatMap((seed) => {
+    const id = parentId === null ? seed.id : `${parentId}${SITE_PATH_SEPARATOR}${seed.id}`
+    const depth = parentId === null ? 0 : parentId.split(SITE_PATH_SEPARATOR).length
+    return [{ id, seed, depth }, ...listSeeds(seed.children ?? [], id)]
+  })
+
+// Swaps the seed under the full `id` for what `change` returns, dropping it on null.
+const updateSeedAt = (
+  seeds: SiteSeed[],
+  id: string,
+  change: (seed: SiteSeed) => SiteSeed | null,
+): SiteSeed[] => {
+  const [head, ...rest] = id.split(SITE_PATH_SEPARATOR)
+  return seeds.flatMap((seed) => {
+    if (seed.id !== head) {
+      return [seed]
+    }
+    if (rest.length === 0) {
+      const next = change(seed)
+      return next ? [next] : []
+    }
+    if (!seed.children) {
+      return [seed]
+    }
+    const children = updateSeedAt(seed.children, rest.join(SITE_PATH_SEPARATOR), change)
+    return [{ ...seed, children: children.length > 0 ? children : undefined }]
+  })
+}
+
+/**
+ * Replaces the seed stored under the full id `previousId`, or appends a top-level seed when it
+ * is null. Renaming an id carries every link that pointed at the old id over to the new one.
+ */
+export const upsertSeed = (
+  seeds: SiteSeed[],
+  previousId: string | null,
+  seed: SiteSeed,
+): SiteSeed[] => {
+  if (previousId === null) {
+    return [...seeds, seed]
+  }
+  const replaced = updateSeedAt(seeds, previousId, () => seed)
+  const nextId = seedPath(previousId, seed)
+  return nextId === previousId
+    ? replaced
+    : replaced.map((current) => renameLinks(current, previousId, nextId))
+}
+
+export const removeSeed = (seeds: SiteSeed[], id: string): SiteSeed[] =>
+  updateSeedAt(seeds, id, () => null).map((seed) => renameLinks(seed, id, null))
+
+/** Pins a seed at `position`, or returns it to its generated orbit slot when undefined. */
+export const pinSeed = (seeds: SiteSeed[], id: string, position: Vec3 | undefined): SiteSeed[] =>
+  updateSeedAt(seeds, id, (seed) => {
+    if (!position) {
+      const unpinned = { ...seed }
+      delete unpinned.position
+      return unpinned
+    }
+    const round = (value: number) => Math.round(value * POSITION_PRECISION) / POSITION_PRECISION
+    return { ...seed, position: { x: round(position.x), y: round(position.y), z: round(position.z) } }
+  })
+
+const isVec3 = (value: unknown): value is Vec3 => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const vector = value as Record<string, unknown>
+  return ['x', 'y', 'z'].every((axis) => Number.isFinite(vector[axis]))
+}
+
+const isSiteId = (value: unknown): value is string => typeof value === 'string' && value !== ''
+
+// Only the shape is checked: a seed's links name other sites, so it cannot be validated alone.
+const isSeedLike = (value: unknown): value is SiteSeed => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const seed = value as Record<string, unknown>
+  return (
+    isSiteId(seed.id) &&
+    !seed.id.includes(SITE_PATH_SEPARATOR) &&
+    typeof seed.name === 'string' &&
+    typeof seed.category === 'string' &&
+    (seed.links === undefined ||
+      (Array.isArray(seed.links) &&
+        seed.links.every((link) => typeof link === 'object' && typeof link?.to === 'string'))) &&
+    (seed.children === undefined ||
+      (Array.isArray(seed.children) && seed.children.every(isSeedLike)))
+  )
+}
+
+const isSiteEdit = (value: unknown): value is SiteEdit => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const edit = value as Record<string, unknown>
+  switch (edit.kind) {
+    case 'upsert':
+      return (edit.previousId === null || isSiteId(edit.previousId)) && isSeedLike(edit.seed)
+    case 'remove':
+      return isSiteId(edit.id)
+    case 'pin':
+      return isSiteId(edit.id) && (edit.position === undefined || isVec3(edit.position))
+    default:
+      return false
+  }
+}
+
+export const isSiteEditList = (value: unknown): value is SiteEdit[] =>
+  Array.isArray(value) && value.every(isSiteEdit)
+
+/** Points tour stops at a renamed site, or drops them and any tour left empty when it is removed. */
+const renameTourStops = (tours: Tour[], fromId: string, toId: string | null): Tour[] =>
+  tours.flatMap((tour) => {
+    const stops = tour.stops.flatMap((stop) => {
+      const siteId = stop.siteId ? renameTarget(stop.siteId, fromId, toId) : undefined
+      if (siteId === stop.siteId) {
+        return [stop]
+      }
+      return siteId === null ? [] : [{ ...stop, siteId }]
+    })
+    if (stops.length === 0) {
+      return []
+    }
+    return stops.every((stop, index) => stop === tour.stops[index]) ? [tour] : [{ ...tour, stops }]
+  })
+
+const applySiteEdit = (manifest: SiteManifest, edit: SiteEdit): SiteManifest => {
+  switch (edit.kind) {
+    case 'upsert': {
+      const { previousId, seed } = edit
+      const sites = upsertSeed(manifest.sites, previousId, seed)
+      const nextId = seedPath(previousId, seed)
+      return previousId === null || previousId === nextId
+        ? { ...manifest, sites }
+        : { ...manifest, sites, tours: renameTourStops(manifest.tours, previousId, nextId) }
+    }
+    case 'remove':
+      return {
+        ...manifest,
+        sites: removeSeed(manifest.sites, edit.id),
+        tours: renameTourStops(manifest.tours, edit.id, null),
+      }
+    case 'pin':
+      return { ...manifest, sites: pinSeed(manifest.sites, edit.id, edit.position) }
+  }
+}
+
+/**
+ * Replays the edits in order over the manifest's sites and the tours that visit them; edits
+ * to seeds the manifest no longer has change nothing.
+ */
+export const applySiteEdits = (manifest: SiteManifest, edits: SiteEdit[]): SiteManifest =>
+  edits.reduce(applySiteEdit, manifest)
@@ -1,8 +1,26 @@
-import type { SiteNode, Vec3 } from '../types/navigation'
+import type { LightnessRange } from '../theme/themes'
+import {
+  PRODUCTION_ENVIRONMENT_ID,
+  productionEnvironment,
+  type EnvironmentProfile,
+  type SiteEnvironmentOverride,
+} from './environments'
+import type {
+  EnvironmentTag,
+  FocusTransition,
+  SiteEmbedMode,
+  SiteLink,
+  SiteNode,
+  Vec3,
+} from '../types/navigation'
 
-const BASE_DOMAIN = '5051001.xyz'
+export const DEFAULT_BASE_DOMAIN = '5051001.xyz'
+/** Joins a parent's id and a child's local id into the child's full id, e.g. `dev/pyweb`. */
+export const SITE_PATH_SEPARATOR = '/'
+const SYSTEM_RADIUS = 3.2
+const DEFAULT_LIGHTNESS: LightnessRange = { min: 76, max: 84 }
 
-interface SiteSeed {
+export interface SiteSeed {
   id: string
   name: string
   category: string
@@ -10,9 +28,43 @@ interface SiteSeed {
   subdomain?: string
   url?: string
   color?: number
+  links?: SiteLink[]
+  healthUrl?: string
+  embed?: SiteEmbedMode
+  screenshot?: string
+  tags?: string[]
+  /** Overrides the manifest-wide focus transition for this site. */
+  focus?: FocusTransition
+  /** Localized name and description keyed by locale, e.g. `en` or `zh-CN`. */
+  translations?: Record<string, SiteTranslation>
+  /** Pins the node here instead of its generated orbit slot; not allowed on children. */
+  position?: Vec3
+  /** Overrides keyed by environment id; see `EnvironmentProfile`. */
+  environments?: Record<string, SiteEnvironmentOverride>
+  /** Sites shown as moons of this one until it is focused; their ids are local to it. */
+  children?: SiteSeed[]
 }
 
-const CATEGORY_BASE_HUE: Record<string, number> = {
+export interface SiteTranslation {
+  name?: string
+  description?: string
+}
+
+export interface BuildSitesOptions {
+  baseDomain?: string
+  /** Defaults to production on `baseDomain`. */
+  environment?: EnvironmentProfile
+  /** Tags every node with the environment name, for catalogs that have more than one. */
+  tagEnvironment?: boolean
+  /** Tagged instead on sites whose own `url` has no override for `environment`; production by default. */
+  fallbackEnvironment?: EnvironmentProfile
+  /** Picks names and descriptions from `translations`, falling back to the seed's own. */
+  locale?: string
+  /** Second label line under each node's name, e.g. its translated category. */
+  caption?: (site: SiteSeed) => string | undefined
+}
+
+export const CATEGORY_BASE_HUE: Record<string, number> = {
   portal: 205,
   ai: 236,
   image: 28,
@@ -75,21 +127,38 @@ const hslToHex = (hue: number, saturation: number, lightness: number): number =>
   return (red << 16) + (green << 8) + blue
 }
 
-const createUrl = (subdomain?: string): string => {
-  if (!subdomain) {
-    return `https://${BASE_DOMAIN}`
-  }
-  return `https://${subdomain}.${BASE_DOMAIN}`
+const createUrl = (
+  environment: EnvironmentProfile,
+  subdomain?: string,
+  override: SiteEnvironmentOverride = {},
+): string => {
+  const host = subdomain ? `${subdomain}.${environment.baseDomain}` : environment.baseDomain
+  const port = override.port ? `:${override.port}` : ''
+  return `${environment.protocol}://${host}${port}${override.path ?? ''}`
 }
 
-const resolveUrl = (site: SiteSeed): string => {
-  if (site.url) {
+// An explicit `url` points outside the environment's domain, so it stays put unless overridden.
+const resolveUrl = (site: SiteSeed, environment: EnvironmentProfile): string => {
+  const override = site.environments?.[environment.id]
+  if (override?.url) {
+    return override.url
+  }
+  if (site.url && !override) {
     return site.url
   }
-  return createUrl(site.subdomain)
+  return createUrl(environment, site.subdomain, override)
 }
 
-const resolveColor = (site: SiteSeed): number => {
+// Mirrors `resolveUrl`: only an explicit `url` without an override leaves the environment.
+const hasEnvironmentUrl = (site: SiteSeed, environment: EnvironmentProfile): boolean =>
+  environment.id === PRODUCTION_ENVIRONMENT_ID ||
+  !site.url ||
+  site.environments?.[environment.id] !== undefined
+
+const resolveColor = (
+  site: Pick<SiteSeed, 'id' | 'category' | 'color'>,
+  range: LightnessRange = DEFAULT_LIGHTNESS,
+): number => {
   if (site.color !== undefined) {
     return site.color
   }
@@ -98,7 +167,7 @@ const resolveColor = (site: SiteSeed): number => {
   const baseHue = CATEGORY_BASE_HUE[site.category] ?? (hash % 360)
   const hueOffset = (hash % 9) - 4
   const saturation = 44 + (Math.floor(hash / 19) % 14)
-  const lightness = 76 + (Math.floor(hash / 37) % 9)
+  const lightness = range.min + (Math.floor(hash / 37) % (range.max - range.min + 1))
 
   return hslToHex((baseHue + hueOffset + 360) % 360, saturation, lightness)
 }
@@ -115,27 +184,129 @@ const createOrbitPosition = (index: number, total: number): Vec3 => {
   }
 }
 
-const seeds: SiteSeed[] = [
-  { id: 'root', name: 'www', category: 'portal', description: '根站入口。' },
-  { id: 'nav', name: 'nav', subdomain: 'nav', category: 'portal', description: '导航入口。' },
-  { id: 'chat', name: 'chat', subdomain: 'chat', category: 'ai', description: '对话与问答。' },
-  { id: 'draw', name: 'draw', subdomain: 'draw', category: 'image', description: '绘图与图像生成。' },
-  { id: 'ggbpuppy', name: 'ggbpuppy', subdomain: 'ggbpuppy', category: 'tool', description: '专用工具节点。' },
-  { id: 'mambo', name: 'mambo', subdomain: 'mambo', category: 'service', description: '功能服务节点。' },
-  { id: 'mdtoword', name: 'mdtoword', subdomain: 'mdtoword', category: 'converter', description: 'Markdown 转 Word。' },
-  { id: 'proxy', name: 'proxy', subdomain: 'proxy', category: 'network', description: '代理与转发入口。' },
-  { id: 'manimcat', name: 'manimcat', subdomain: 'manimcat', category: 'math', description: '可视化/动画相关节点。' },
-  { id: 'pyweb', name: 'pyweb', subdomain: 'pyweb', category: 'dev', description: 'Python Web 相关节点。' },
-  { id: 'prompt', name: 'prompt', subdomain: 'prompt', category: 'ai', description: 'Prompt 提示词工具。' },
-  { id: 'c2w', name: 'C2W', subdomain: 'C2W', category: 'converter', description: 'C2W 转换服务。' },
-]
-
-export const sites: SiteNode[] = seeds.map((site, index) => ({
-  id: site.id,
-  name: site.name,
-  url: resolveUrl(site),
-  color: resolveColor(site),
-  category: site.category,
-  description: site.description,
-  position: createOrbitPosition(index, seeds.length),
-}))
+// Children circle their parent on a local orbit that widens a little with their number.
+const createSystemOffset = (index: number, total: number): Vec3 => {
+  const angle = (index / total) * Math.PI * 2
+  const radius = SYSTEM_RADIUS + total * 0.18
+  return {
+    x: Math.cos(angle) * radius,
+    y: index % 2 === 0 ? 0.5 : -0.5,
+    z: Math.sin(angle) * radius,
+  }
+}
+
+/** The site's ancestors from the outermost down, followed by the site itself. */
+export const siteTrail = (site: SiteNode, sitesById: ReadonlyMap<string, SiteNode>): SiteNode[] => {
+  const trail = [site]
+  let parentId = site.parentId
+  while (parentId) {
+    const parent = sitesById.get(parentId)
+    if (!parent) {
+      break
+    }
+    trail.unshift(parent)
+    parentId = parent.parentId
+  }
+  return trail
+}
+
+/**
+ * Top-level sites plus the children of every system on the way to `openId`, which is what
+ * the scene shows while that site is focused.
+ */
+export const visibleSites = (sites: SiteNode[], openId: string | null): SiteNode[] => {
+  if (!sites.some((site) => site.parentId)) {
+    return sites
+  }
+  const open = sites.find((site) => site.id === openId)
+  if (!open) {
+    return sites.filter((site) => !site.parentId)
+  }
+  const siteById = new Map(sites.map((site) => [site.id, site]))
+  const openIds = new Set(siteTrail(open, siteById).map((site) => site.id))
+  return sites.filter((site) => !site.parentId || openIds.has(site.parentId))
+}
+
+export const resolveNodeColor = (site: SiteNode, range: LightnessRange): number =>
+  site.customColor ? site.color : resolveColor({ id: site.id, category: site.category }, range)
+
+// An exact locale match wins over one that only shares the language, so `zh` covers `zh-CN`.
+const findTranslation = (site: SiteSeed, locale: string): SiteTranslation | undefined => {
+  if (!site.translations) {
+    return undefined
+  }
+  const language = locale.split('-')[0]
+  return (
+    site.translations[locale] ??
+    Object.entries(site.translations).find(([key]) => key.split('-')[0] === language)?.[1]
+  )
+}
+
+/**
+ * Flattens the seeds into nodes, each system's children right after their parent with ids
+ * prefixed by the parent's and positions on a local orbit around it.
+ */
+export const buildSites = (
+  seeds: SiteSeed[],
+  {
+    baseDomain = DEFAULT_BASE_DOMAIN,
+    environment = productionEnvironment(baseDomain),
+    tagEnvironment = false,
+    fallbackEnvironment = productionEnvironment(baseDomain),
+    locale,
+    caption,
+  }: BuildSitesOptions = {},
+): SiteNode[] => {
+  const tagFor = (site: SiteSeed): EnvironmentTag => {
+    const resolved = hasEnvironmentUrl(site, environment)
+    const target = resolved ? environment : fallbackEnvironment
+    return {
+      name: target.name,
+      production: target.id === PRODUCTION_ENVIRONMENT_ID,
+      fallback: resolved ? undefined : true,
+    }
+  }
+
+  const build = (site: SiteSeed, id: string, position: Vec3, parentId?: string): SiteNode[] => {
+    const translation = locale ? findTranslation(site, locale) : undefined
+    const children = site.children ?? []
+    const childIds = children.map((child) => `${id}${SITE_PATH_SEPARATOR}${child.id}`)
+    const node: SiteNode = {
+      id,
+      name: translation?.name ?? site.name,
+      url: resolveUrl(site, environment),
+      environment: tagEnvironment ? tagFor(site) : undefined,
+      color: resolveColor(site),
+      customColor: site.color !== undefined,
+      category: site.category,
+      description: translation?.description ?? site.description,
+      caption: caption?.(site),
+      links: site.links,
+      healthUrl: site.healthUrl,
+      embed: site.embed,
+      screenshot: site.screenshot,
+      tags: site.tags,
+      focus: site.focus,
+      position,
+      pinned: !parentId && site.position !== undefined,
+      parentId,
+      childIds: childIds.length > 0 ? childIds : undefined,
+    }
+    return [
+      node,
+      ...children.flatMap((child, index) => {
+        const offset = createSystemOffset(index, children.length)
+        return build(
+          child,
+          childIds[index],
+          { x: position.x + offset.x, y: position.y + offset.y, z: position.z + offset.z },
+          id,
+        )
+      }),
+    ]
+  }
+
+  return seeds.flatMap((site, index) =>
+    build(site, site.id, site.position ?? createOrbitPosition(index, seeds.length)),
+  )
+}
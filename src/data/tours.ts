@@ -0,0 +1,101 @@
+import type { CameraShot, CameraView, SiteNode, Vec3 } from '../types/navigation'
+
+/** A named camera pose, declared in the manifest or saved from the current view. */
+export interface Viewpoint extends CameraView {
+  id: string
+  name: string
+}
+
+/** One step of a tour: a site to fly to or a viewpoint to take, never both. */
+export interface TourStop {
+  siteId?: string
+  viewpointId?: string
+  caption?: string
+  /** How long the tour stays here before moving on, counted from the start of the flight. */
+  durationMs?: number
+}
+
+export interface Tour {
+  id: string
+  name: string
+  stops: TourStop[]
+  /** Starts over after the last stop instead of ending. */
+  loop?: boolean
+  /** Played as the screensaver once the page has been left idle. */
+  screensaver?: boolean
+}
+
+/** A stop whose site or viewpoint exists in the current catalog. */
+export interface ResolvedTourStop {
+  shot: CameraShot
+  title: string
+  caption?: string
+  durationMs: number
+}
+
+export const DEFAULT_STOP_DURATION_MS = 7000
+export const SCREENSAVER_TOUR_ID = 'screensaver'
+
+const isVec3 = (value: unknown): value is Vec3 => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const vector = value as Record<string, unknown>
+  return ['x', 'y', 'z'].every(
+    (axis) => typeof vector[axis] === 'number' && Number.isFinite(vector[axis]),
+  )
+}
+
+export const isViewpoint = (value: unknown): value is Viewpoint => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const candidate = value as Record<string, unknown>
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    isVec3(candidate.position) &&
+    isVec3(candidate.target)
+  )
+}
+
+export const isViewpointList = (value: unknown): value is Viewpoint[] =>
+  Array.isArray(value) && value.every(isViewpoint)
+
+/** A looping pass over every site, for catalogs that declare no screensaver of their own. */
+export const createSiteTour = (sites: SiteNode[]): Tour => ({
+  id: SCREENSAVER_TOUR_ID,
+  name: SCREENSAVER_TOUR_ID,
+  loop: true,
+  screensaver: true,
+  stops: sites.map((site) => ({ siteId: site.id, caption: site.description })),
+})
+
+/** Drops stops pointing at sites or viewpoints the catalog no longer has. */
+export const resolveTourStops = (
+  tour: Tour,
+  sites: SiteNode[],
+  viewpoints: Viewpoint[],
+): ResolvedTourStop[] => {
+  const siteById = new Map(sites.map((site) => [site.id, site]))
+  const viewpointById = new Map(viewpoints.map((viewpoint) => [viewpoint.id, viewpoint]))
+  return tour.stops.flatMap((stop): ResolvedTourStop[] => {
+    const durationMs = stop.durationMs ?? DEFAULT_STOP_DURATION_MS
+    const site = stop.siteId ? siteById.get(stop.siteId) : undefined
+    if (site) {
+      return [{ shot: { kind: 'site', site }, title: site.name, caption: stop.caption, durationMs }]
+    }
+    const viewpoint = stop.viewpointId ? viewpointById.get(stop.viewpointId) : undefined
+    if (viewpoint) {
+      return [
+        {
+          shot: { kind: 'view', view: viewpoint },
+          title: viewpoint.name,
+          caption: stop.caption,
+          durationMs,
+        },
+      ]
+    }
+    return []
+  })
+}
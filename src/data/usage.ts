@@ -0,0 +1,102 @@
+import type { SiteNode } from '../types/navigation'
+
+export interface SiteUsageEntry {
+  opens: number
+  lastOpenedAt: number
+}
+
+export interface UsageData {
+  version: 1
+  sites: Record<string, SiteUsageEntry>
+  favorites: string[]
+}
+
+export const EMPTY_USAGE: UsageData = { version: 1, sites: {}, favorites: [] }
+
+const DAY_MS = 86_400_000
+const RECENCY_HALF_LIFE_DAYS = 14
+const FAVORITE_BOOST = 0.35
+const USAGE_SHARE = 0.75
+
+const isUsageEntry = (value: unknown): value is SiteUsageEntry => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const entry = value as Record<string, unknown>
+  return typeof entry.opens === 'number' && typeof entry.lastOpenedAt === 'number'
+}
+
+export const isUsageData = (value: unknown): value is UsageData => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const candidate = value as Record<string, unknown>
+  return (
+    candidate.version === 1 &&
+    typeof candidate.sites === 'object' &&
+    candidate.sites !== null &&
+    Object.values(candidate.sites).every(isUsageEntry) &&
+    Array.isArray(candidate.favorites) &&
+    candidate.favorites.every((id) => typeof id === 'string')
+  )
+}
+
+export const recordOpen = (usage: UsageData, siteId: string, now: number): UsageData => ({
+  ...usage,
+  sites: {
+    ...usage.sites,
+    [siteId]: { opens: (usage.sites[siteId]?.opens ?? 0) + 1, lastOpenedAt: now },
+  },
+})
+
+export const toggleFavorite = (usage: UsageData, siteId: string): UsageData => ({
+  ...usage,
+  favorites: usage.favorites.includes(siteId)
+    ? usage.favorites.filter((id) => id !== siteId)
+    : [...usage.favorites, siteId],
+})
+
+/** Most recently opened first. */
+export const selectRecentSites = (
+  usage: UsageData,
+  sites: SiteNode[],
+  limit: number,
+): SiteNode[] =>
+  sites
+    .filter((site) => usage.sites[site.id])
+    .sort((a, b) => usage.sites[b.id].lastOpenedAt - usage.sites[a.id].lastOpenedAt)
+    .slice(0, limit)
+
+/**
+ * Scores each site between 0 and 1. Opens count logarithmically and fade with a two-week
+ * half-life measured back from the latest open, so scores stay stable while the app is idle.
+ * Scores are relative to the most used site; pinned favorites get a fixed boost on top.
+ */
+export const computeProminence = (usage: UsageData, sites: SiteNode[]): Map<string, number> => {
+  const scores = new Map<string, number>()
+  let maxScore = 0
+  const latestOpen = Math.max(0, ...Object.values(usage.sites).map((entry) => entry.lastOpenedAt))
+
+  for (const site of sites) {
+    const entry = usage.sites[site.id]
+    if (!entry) {
+      continue
+    }
+    const ageDays = (latestOpen - entry.lastOpenedAt) / DAY_MS
+    const recency = 0.5 + 0.5 * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS)
+    const score = Math.log2(1 + entry.opens) * recency
+    scores.set(site.id, score)
+    maxScore = Math.max(maxScore, score)
+  }
+
+  const favorites = new Set(usage.favorites)
+  const prominence = new Map<string, number>()
+  for (const site of sites) {
+    const share = maxScore > 0 ? (scores.get(site.id) ?? 0) / maxScore : 0
+    const value = share * USAGE_SHARE + (favorites.has(site.id) ? FAVORITE_BOOST : 0)
+    if (value > 0) {
+      prominence.set(site.id, Math.min(1, value))
+    }
+  }
+  return prominence
+}
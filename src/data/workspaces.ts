@@ -0,0 +1,134 @@
+import { isLayoutMode, type LayoutMode } from './layouts'
+import { ManifestError, MANIFEST_URL, parseManifestText, type ManifestIssue } from './manifest'
+import { DEFAULT_BASE_DOMAIN } from './sites'
+
+/**
+ * Registry of workspaces, e.g. `{ "version": 1, "workspaces": [{ "id": "team", "name": "Team",
+ * "manifest": "/team.json", "baseDomain": "team.example.com", "layout": "clusters" }] }`.
+ * Without one the app shows the single `MANIFEST_URL` catalog.
+ */
+export const WORKSPACES_URL: string | undefined = import.meta.env.VITE_WORKSPACES
+
+const HOSTNAME_PATTERN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/i
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/i
+
+export interface Workspace {
+  id: string
+  name: string
+  /** Manifest listing this workspace's sites, resolved against the registry URL. */
+  manifestUrl: string
+  baseDomain: string
+  layout: LayoutMode
+}
+
+export const DEFAULT_WORKSPACE: Workspace = {
+  id: 'default',
+  name: 'Wingflow',
+  manifestUrl: MANIFEST_URL,
+  baseDomain: DEFAULT_BASE_DOMAIN,
+  layout: 'ring',
+}
+
+/**
+ * Namespaces a storage key by workspace. The first workspace in the registry keeps the bare key,
+ * so state saved before workspaces existed still belongs to the home galaxy.
+ */
+export const scopedStorageKey = (key: string, workspace: Workspace, home: Workspace): string =>
+  workspace.id === home.id ? key : `${key}:${workspace.id}`
+
+const validateWorkspaces = (raw: unknown, registryUrl: string): Workspace[] => {
+  const registry = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {}
+  const entries = registry.workspaces
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ManifestError('Workspace registry must have a non-empty "workspaces" list')
+  }
+  const version = typeof registry.version === 'number' ? registry.version : 1
+  if (version !== 1) {
+    throw new ManifestError(`Unsupported workspace registry version ${version}`)
+  }
+
+  const issues: ManifestIssue[] = []
+  const seenIds = new Set<string>()
+  const workspaces: Workspace[] = []
+  const base = new URL(registryUrl, window.location.href)
+
+  entries.forEach((entry: unknown, index) => {
+    if (typeof entry !== 'object' || entry === null) {
+      issues.push({ index, field: '(entry)', message: 'must be an object' })
+      return
+    }
+    const candidate = entry as Record<string, unknown>
+    const id = typeof candidate.id === 'string' ? candidate.id.trim() : ''
+    const issueCount = issues.length
+    const report = (field: string, message: string) => {
+      issues.push({ index, id: id || undefined, field, message })
+    }
+
+    if (!WORKSPACE_ID_PATTERN.test(id)) {
+      report('id', 'is required and may only use letters, digits and dashes')
+    } else if (seenIds.has(id)) {
+      report('id', `duplicates an earlier workspace with id "${id}"`)
+    } else {
+      seenIds.add(id)
+    }
+    if (typeof candidate.name !== 'string' || candidate.name.trim() === '') {
+      report('name', 'is required')
+    }
+    if (typeof candidate.manifest !== 'string' || candidate.manifest.trim() === '') {
+      report('manifest', 'is required')
+    }
+    if (
+      candidate.baseDomain !== undefined &&
+      (typeof candidate.baseDomain !== 'string' || !HOSTNAME_PATTERN.test(candidate.baseDomain))
+    ) {
+      report('baseDomain', `"${String(candidate.baseDomain)}" is not a valid domain`)
+    }
+    if (candidate.layout !== undefined && !isLayoutMode(candidate.layout)) {
+      report('layout', `"${String(candidate.layout)}" is not a known layout`)
+    }
+
+    if (issues.length > issueCount) {
+      return
+    }
+    workspaces.push({
+      id,
+      name: candidate.name as string,
+      manifestUrl: new URL(candidate.manifest as string, base).toString(),
+      baseDomain: (candidate.baseDomain as string | undefined) ?? DEFAULT_BASE_DOMAIN,
+      layout: (candidate.layout as LayoutMode | undefined) ?? 'ring',
+    })
+  })
+
+  if (issues.length > 0) {
+    throw new ManifestError(
+      `Workspace registry has ${issues.length} invalid ${issues.length === 1 ? 'field' : 'fields'}`,
+      issues,
+    )
+  }
+  return workspaces
+}
+
+export const loadWorkspaces = async (
+  url: string | undefined = WORKSPACES_URL,
+  signal?: AbortSignal,
+): Promise<Workspace[]> => {
+  if (!url) {
+    return [DEFAULT_WORKSPACE]
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, { signal, headers: { Accept: 'application/json' } })
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error
+    }
+    throw new ManifestError(`Could not reach ${url}`)
+  }
+
+  if (!response.ok) {
+    throw new ManifestError(`Could not load ${url} (HTTP ${response.status})`)
+  }
+
+  return validateWorkspaces(await parseManifestText(await response.text(), 'json'), url)
+}
@@ -0,0 +1,43 @@
+import { createContext, useContext, useLayoutEffect, useMemo } from 'react'
+import {
+  createTranslator,
+  detectLocale,
+  isLocale,
+  type Locale,
+  type Translate,
+} from '../i18n/messages'
+import { usePersistentState } from './usePersistentState'
+
+export interface I18n {
+  locale: Locale
+  t: Translate
+}
+
+export interface LocaleState extends I18n {
+  setLocale: (locale: Locale) => void
+}
+
+const defaultLocale = detectLocale()
+
+export const I18nContext = createContext<I18n>({
+  locale: defaultLocale,
+  t: createTranslator(defaultLocale),
+})
+
+export const useI18n = (): I18n => useContext(I18nContext)
+
+/** The saved locale, or the browser's preferred one, kept in sync with `<html lang>`. */
+export const useLocale = (): LocaleState => {
+  const [locale, setLocale] = usePersistentState<Locale>('locale', defaultLocale, isLocale)
+  // Memoized so context consumers only re-render when the locale actually changes.
+  const state = useMemo(
+    () => ({ locale, t: createTranslator(locale), setLocale }),
+    [locale, setLocale],
+  )
+
+  useLayoutEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  return state
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const
+
+/** True once the page has seen no input for `timeoutMs`; any input resets it. */
+export const useIdle = (timeoutMs: number): boolean => {
+  const [idle, setIdle] = useState(false)
+
+  useEffect(() => {
+    let timer = window.setTimeout(() => setIdle(true), timeoutMs)
+    const onActivity = () => {
+      window.clearTimeout(timer)
+      setIdle(false)
+      timer = window.setTimeout(() => setIdle(true), timeoutMs)
+    }
+
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, onActivity, { passive: true })
+    }
+    return () => {
+      window.clearTimeout(timer)
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, onActivity)
+      }
+    }
+  }, [timeoutMs])
+
+  return idle
+}
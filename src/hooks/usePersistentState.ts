@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react'
+
+const STORAGE_PREFIX = 'orbnav:'
+
+export const readStoredValue = <T>(key: string, fallback: T, isValid: (value: unknown) => value is T): T => {
+  try {
+    const raw = window.localStorage.getItem(`${STORAGE_PREFIX}${key}`)
+    if (raw === null) {
+      return fallback
+    }
+    const parsed: unknown = JSON.parse(raw)
+    return isValid(parsed) ? parsed : fallback
+  } catch {
+    return fallback
+  }
+}
+
+export const writeStoredValue = (key: string, value: unknown): void => {
+  try {
+    if (value === undefined) {
+      window.localStorage.removeItem(`${STORAGE_PREFIX}${key}`)
+      return
+    }
+    window.localStorage.setItem(`${STORAGE_PREFIX}${key}`, JSON.stringify(value))
+  } catch {
+    // Storage can be unavailable (private mode, quota); the in-memory value still applies.
+  }
+}
+
+interface StoredState<T> {
+  key: string
+  /** Undefined until something is saved under `key`, so the latest fallback shows through. */
+  value: T | undefined
+  /** Set by the setter, so the effect below saves the value; values read from storage are not. */
+  changed?: boolean
+}
+
+const readState = <T>(key: string, isValid: (value: unknown) => value is T): StoredState<T> => ({
+  key,
+  value: readStoredValue<T | undefined>(key, undefined, isValid),
+})
+
+/**
+ * State saved in localStorage under `key`. Until a value is saved, the current `fallback` is
+ * returned, so a default that arrives later (e.g. from a loaded registry) still applies.
+ */
+export const usePersistentState = <T>(
+  key: string,
+  fallback: T,
+  isValid: (value: unknown) => value is T,
+): [T, (next: T | ((current: T) => T)) => void] => {
+  const [stored, setStored] = useState(() => readState(key, isValid))
+
+  // A new key (e.g. another workspace) starts from whatever that key has saved.
+  let current = stored
+  if (stored.key !== key) {
+    current = readState(key, isValid)
+    setStored(current)
+  }
+
+  // Saving happens after commit: updaters must stay pure, since StrictMode calls them twice.
+  useEffect(() => {
+    if (stored.changed) {
+      writeStoredValue(stored.key, stored.value)
+    }
+  }, [stored])
+
+  // Writes go to the key held in state, so the setter keeps its identity when the key changes.
+  const update = useCallback(
+    (next: T | ((current: T) => T)) => {
+      setStored((previous) => {
+        const resolved =
+          typeof next === 'function'
+            ? (next as (current: T) => T)(previous.value ?? fallback)
+            : next
+        return { key: previous.key, value: resolved, changed: true }
+      })
+    },
+    [fallback],
+  )
+
+  return [current.value ?? fallback, update]
+}
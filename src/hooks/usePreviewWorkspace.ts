@@ -0,0 +1,120 @@
+import { useCallback, useMemo } from 'react'
+import type { SiteNode } from '../types/navigation'
+import { usePersistentState } from './usePersistentState'
+
+export const MAX_SPLIT_PANES = 3
+
+export interface PreviewWorkspaceState {
+  tabs: string[]
+  activeId: string | null
+  paneIds: string[]
+}
+
+export interface PreviewWorkspace {
+  tabs: SiteNode[]
+  activeSite: SiteNode | null
+  panes: SiteNode[]
+  openTab: (siteId: string) => void
+  activateTab: (siteId: string) => void
+  closeTab: (siteId: string) => string | null
+  setPaneCount: (count: number) => void
+}
+
+const EMPTY_WORKSPACE: PreviewWorkspaceState = { tabs: [], activeId: null, paneIds: [] }
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+const isWorkspaceState = (value: unknown): value is PreviewWorkspaceState => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const candidate = value as Record<string, unknown>
+  return (
+    isStringList(candidate.tabs) &&
+    isStringList(candidate.paneIds) &&
+    (candidate.activeId === null || typeof candidate.activeId === 'string')
+  )
+}
+
+const withActive = (state: PreviewWorkspaceState, siteId: string): PreviewWorkspaceState => {
+  const tabs = state.tabs.includes(siteId) ? state.tabs : [...state.tabs, siteId]
+  if (state.paneIds.length < 2 || state.paneIds.includes(siteId)) {
+    return { ...state, tabs, activeId: siteId }
+  }
+  const slot = state.activeId ? state.paneIds.indexOf(state.activeId) : -1
+  const paneIds = state.paneIds.slice()
+  paneIds[slot >= 0 ? slot : paneIds.length - 1] = siteId
+  return { tabs, activeId: siteId, paneIds }
+}
+
+export const usePreviewWorkspace = (
+  sites: SiteNode[],
+  storageKey = 'workspace',
+): PreviewWorkspace => {
+  const [state, setState] = usePersistentState(storageKey, EMPTY_WORKSPACE, isWorkspaceState)
+
+  const siteById = useMemo(() => new Map(sites.map((site) => [site.id, site])), [sites])
+
+  const tabs = useMemo(
+    () => state.tabs.flatMap((id) => siteById.get(id) ?? []),
+    [siteById, state.tabs],
+  )
+  const activeSite = (state.activeId && siteById.get(state.activeId)) || tabs[0] || null
+  const panes = useMemo(() => {
+    const resolved = state.paneIds.flatMap((id) => siteById.get(id) ?? [])
+    if (resolved.length >= 2) {
+      return resolved
+    }
+    return activeSite ? [activeSite] : []
+  }, [activeSite, siteById, state.paneIds])
+
+  const openTab = useCallback(
+    (siteId: string) => {
+      setState((current) => withActive(current, siteId))
+    },
+    [setState],
+  )
+
+  const activateTab = openTab
+
+  const closeTab = useCallback(
+    (siteId: string): string | null => {
+      const index = state.tabs.indexOf(siteId)
+      const remaining = state.tabs.filter((id) => id !== siteId)
+      const nextActive =
+        state.activeId === siteId
+          ? remaining[Math.min(Math.max(index, 0), remaining.length - 1)] ?? null
+          : state.activeId
+
+      setState((current) => {
+        const paneIds = current.paneIds.filter((id) => id !== siteId)
+        return {
+          tabs: current.tabs.filter((id) => id !== siteId),
+          activeId: nextActive,
+          paneIds: paneIds.length >= 2 ? paneIds : [],
+        }
+      })
+      return nextActive
+    },
+    [setState, state.activeId, state.tabs],
+  )
+
+  const setPaneCount = useCallback(
+    (count: number) => {
+      setState((current) => {
+        const size = Math.min(count, MAX_SPLIT_PANES, current.tabs.length)
+        if (size < 2 || !current.activeId) {
+          return { ...current, paneIds: [] }
+        }
+        const others = current.tabs.filter((id) => id !== current.activeId)
+        const kept = current.paneIds.filter((id) => id !== current.activeId && others.includes(id))
+        const fill = others.filter((id) => !kept.includes(id))
+        return { ...current, paneIds: [current.activeId, ...kept, ...fill].slice(0, size) }
+      })
+    },
+    [setState],
+  )
+
+  return { tabs, activeSite, panes, openTab, activateTab, closeTab, setPaneCount }
+}
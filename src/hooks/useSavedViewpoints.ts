@@ -0,0 +1,34 @@
+import { useCallback } from 'react'
+import { isViewpointList, type Viewpoint } from '../data/tours'
+import type { CameraView } from '../types/navigation'
+import { usePersistentState } from './usePersistentState'
+
+const NO_VIEWPOINTS: Viewpoint[] = []
+
+export interface SavedViewpoints {
+  viewpoints: Viewpoint[]
+  /** Stores the view under `name` and returns the new viewpoint's id. */
+  save: (name: string, view: CameraView) => string
+  remove: (viewpointId: string) => void
+}
+
+export const useSavedViewpoints = (storageKey = 'viewpoints'): SavedViewpoints => {
+  const [viewpoints, setViewpoints] = usePersistentState(storageKey, NO_VIEWPOINTS, isViewpointList)
+
+  const save = useCallback(
+    (name: string, view: CameraView) => {
+      const id = `saved-${Date.now().toString(36)}`
+      setViewpoints((current) => [...current, { id, name, ...view }])
+      return id
+    },
+    [setViewpoints],
+  )
+
+  const remove = useCallback(
+    (viewpointId: string) =>
+      setViewpoints((current) => current.filter((viewpoint) => viewpoint.id !== viewpointId)),
+    [setViewpoints],
+  )
+
+  return { viewpoints, save, remove }
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react'
+import { loadManifest, ManifestError, type ManifestIssue, type SiteManifest } from '../data/manifest'
+
+export type SiteCatalogState =
+  | { status: 'loading' }
+  | { status: 'ready'; manifest: SiteManifest }
+  | { status: 'error'; message: string; issues: ManifestIssue[] }
+
+/** Loads the manifest at `url`; stays loading while the url is not known yet. */
+export const useSiteCatalog = (url: string | null): SiteCatalogState & { reload: () => void } => {
+  const [state, setState] = useState<SiteCatalogState>({ status: 'loading' })
+  const [attempt, setAttempt] = useState(0)
+  const [loadedUrl, setLoadedUrl] = useState(url)
+
+  if (loadedUrl !== url) {
+    setLoadedUrl(url)
+    setState({ status: 'loading' })
+  }
+
+  useEffect(() => {
+    if (!url) {
+      return
+    }
+    const controller = new AbortController()
+
+    loadManifest(url, controller.signal)
+      .then((manifest) => {
+        setState({ status: 'ready', manifest })
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) {
+          return
+        }
+        if (error instanceof ManifestError) {
+          setState({ status: 'error', message: error.message, issues: error.issues })
+          return
+        }
+        setState({
+          status: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          issues: [],
+        })
+      })
+
+    return () => {
+      controller.abort()
+    }
+  }, [attempt, url])
+
+  const reload = useCallback(() => {
+    setState({ status: 'loading' })
+    setAttempt((value) => value + 1)
+  }, [])
+
+  return { ...state, reload }
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toManifest, type SiteManifest } from '../data/manifest'
+import { applySiteEdits, isSiteEditList, type SiteEdit } from '../data/siteEdits'
+import { downloadJson } from '../utils/download'
+import { readStoredValue, writeStoredValue } from './usePersistentState'
+
+const HISTORY_LIMIT = 50
+
+// `null` means no local edits: the manifest is shown as loaded.
+type Draft = SiteEdit[] | null
+
+interface EditHistory {
+  key: string
+  past: Draft[]
+  present: Draft
+  future: Draft[]
+  /** Set once `present` differs from what was loaded, so the effect below saves it. */
+  changed?: boolean
+}
+
+export interface SiteEditor {
+  /** The manifest with local edits applied, or null while the manifest is unavailable. */
+  manifest: SiteManifest | null
+  hasLocalEdits: boolean
+  canUndo: boolean
+  canRedo: boolean
+  apply: (edit: SiteEdit) => void
+  undo: () => void
+  redo: () => void
+  discard: () => void
+  exportManifest: () => void
+}
+
+const isDraft = (value: unknown): value is Draft => value === null || isSiteEditList(value)
+
+const pushDraft = (current: EditHistory, draft: Draft): EditHistory => ({
+  key: current.key,
+  past: [...current.past, current.present].slice(-HISTORY_LIMIT),
+  present: draft,
+  future: [],
+})
+
+const loadHistory = (key: string): EditHistory => ({
+  key,
+  past: [],
+  present: readStoredValue(key, null, isDraft),
+  future: [],
+})
+
+/**
+ * Local edits on top of the manifest's sites and tours, saved under `storageKey` with an in-memory undo
+ * history. Only the edits are stored, so manifest updates show through everywhere they did not touch.
+ */
+export const useSiteEditor = (
+  baseManifest: SiteManifest | null,
+  storageKey: string,
+): SiteEditor => {
+  const [storedHistory, setHistory] = useState<EditHistory>(() => loadHistory(storageKey))
+  let history = storedHistory
+  if (storedHistory.key !== storageKey) {
+    history = loadHistory(storageKey)
+    setHistory(history)
+  }
+  const edits = history.present
+  const manifest = useMemo(
+    () => (baseManifest && edits ? applySiteEdits(baseManifest, edits) : baseManifest),
+    [baseManifest, edits],
+  )
+  // Read through a ref so `apply` keeps its identity once the manifest loads.
+  const loadedRef = useRef(baseManifest !== null)
+
+  useEffect(() => {
+    loadedRef.current = baseManifest !== null
+  }, [baseManifest])
+
+  useEffect(() => {
+    if (storedHistory.changed) {
+      writeStoredValue(storedHistory.key, storedHistory.present ?? undefined)
+    }
+  }, [storedHistory])
+
+  const update = useCallback((next: (current: EditHistory) => EditHistory) => {
+    setHistory((current) => {
+      const resolved = next(current)
+      return resolved.present === current.present ? resolved : { ...resolved, changed: true }
+    })
+  }, [])
+
+  const apply = useCallback(
+    (edit: SiteEdit) => {
+      if (loadedRef.current) {
+        update((current) => pushDraft(current, [...(current.present ?? []), edit]))
+      }
+    },
+    [update],
+  )
+
+  const undo = useCallback(
+    () =>
+      update((current) =>
+        current.past.length === 0
+          ? current
+          : {
+              key: current.key,
+              past: current.past.slice(0, -1),
+              present: current.past[current.past.length - 1],
+              future: [current.present, ...current.future],
+            },
+      ),
+    [update],
+  )
+
+  const redo = useCallback(
+    () =>
+      update((current) =>
+        current.future.length === 0
+          ? current
+          : {
+              key: current.key,
+              past: [...current.past, current.present],
+              present: current.future[0],
+              future: current.future.slice(1),
+            },
+      ),
+    [update],
+  )
+
+  const discard = useCallback(
+    () => update((current) => (current.present === null ? current : pushDraft(current, null))),
+    [update],
+  )
+
+  const exportManifest = useCallback(() => {
+    if (manifest) {
+      downloadJson('sites.json', toManifest(manifest))
+    }
+  }, [manifest])
+
+  return {
+    manifest,
+    hasLocalEdits: history.present !== null,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    apply,
+    undo,
+    redo,
+    discard,
+    exportManifest,
+  }
+}
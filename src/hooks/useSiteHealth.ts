@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import {
+  createHealthChecker,
+  type HealthCheckerOptions,
+  type HealthSnapshot,
+  type HealthTarget,
+} from '../services/healthChecker'
+import type { SiteNode } from '../types/navigation'
+
+const HEALTH_CHECKS_ENABLED = import.meta.env.VITE_HEALTH_CHECKS !== 'off'
+const EMPTY_SNAPSHOT: HealthSnapshot = new Map()
+
+export const useSiteHealth = (
+  sites: SiteNode[],
+  options?: HealthCheckerOptions,
+): HealthSnapshot => {
+  const [snapshot, setSnapshot] = useState<HealthSnapshot>(EMPTY_SNAPSHOT)
+  // Keyed by content: a new `sites` array (a locale switch, an edit) restarting the checker
+  // would wipe every site's history and probe them all again.
+  const targetKey = JSON.stringify(
+    sites.map((site): HealthTarget => ({ id: site.id, url: site.healthUrl ?? site.url })),
+  )
+
+  useEffect(() => {
+    const targets = JSON.parse(targetKey) as HealthTarget[]
+    if (!HEALTH_CHECKS_ENABLED || targets.length === 0) {
+      return
+    }
+
+    const checker = createHealthChecker(options)
+    const unsubscribe = checker.subscribe(setSnapshot)
+    checker.setTargets(targets)
+    checker.start()
+
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        checker.stop()
+      } else {
+        checker.start()
+      }
+    }
+
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      unsubscribe()
+      checker.stop()
+    }
+  }, [targetKey, options])
+
+  return snapshot
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react'
+import { SITE_PATH_SEPARATOR } from '../data/sites'
+
+const SITE_ROUTE_PREFIX = '#/site/'
+const FOCUS_QUERY_PARAM = 'focus'
+
+interface NavigateOptions {
+  replace?: boolean
+}
+
+// Nested ids keep their separators, so a child reads as `#/site/dev/pyweb`.
+export const formatSiteRoute = (siteId: string | null): string => {
+  if (!siteId) {
+    return '#/'
+  }
+  const segments = siteId.split(SITE_PATH_SEPARATOR).map(encodeURIComponent)
+  return `${SITE_ROUTE_PREFIX}${segments.join(SITE_PATH_SEPARATOR)}`
+}
+
+export const parseSiteRoute = (location: Location): string | null => {
+  if (location.hash.startsWith(SITE_ROUTE_PREFIX)) {
+    const raw = location.hash.slice(SITE_ROUTE_PREFIX.length)
+    try {
+      return decodeURIComponent(raw) || null
+    } catch {
+      return null
+    }
+  }
+
+  const params = new URLSearchParams(location.search)
+  return params.get(FOCUS_QUERY_PARAM) || null
+}
+
+const buildHref = (siteId: string | null): string => {
+  const url = new URL(window.location.href)
+  url.searchParams.delete(FOCUS_QUERY_PARAM)
+  url.hash = formatSiteRoute(siteId)
+  return url.toString()
+}
+
+export const useSiteRoute = (): [string | null, (siteId: string | null, options?: NavigateOptions) => void] => {
+  const [siteId, setSiteId] = useState<string | null>(() => parseSiteRoute(window.location))
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).has(FOCUS_QUERY_PARAM)) {
+      window.history.replaceState(null, '', buildHref(parseSiteRoute(window.location)))
+    }
+
+    const onLocationChange = () => {
+      setSiteId(parseSiteRoute(window.location))
+    }
+
+    window.addEventListener('popstate', onLocationChange)
+    window.addEventListener('hashchange', onLocationChange)
+    return () => {
+      window.removeEventListener('popstate', onLocationChange)
+      window.removeEventListener('hashchange', onLocationChange)
+    }
+  }, [])
+
+  const navigate = useCallback((nextId: string | null, options: NavigateOptions = {}) => {
+    const href = buildHref(nextId)
+    if (href !== window.location.href) {
+      if (options.replace) {
+        window.history.replaceState(null, '', href)
+      } else {
+        window.history.pushState(null, '', href)
+      }
+    }
+    setSiteId(nextId)
+  }, [])
+
+  return [siteId, navigate]
+}
@@ -0,0 +1,67 @@
+import { useCallback, useMemo } from 'react'
+import {
+  EMPTY_USAGE,
+  computeProminence,
+  isUsageData,
+  recordOpen,
+  selectRecentSites,
+  toggleFavorite,
+  type UsageData,
+} from '../data/usage'
+import type { SiteNode } from '../types/navigation'
+import { downloadJson } from '../utils/download'
+import { usePersistentState } from './usePersistentState'
+
+const RECENT_LIMIT = 6
+
+export interface SiteUsage {
+  data: UsageData
+  favoriteIds: ReadonlySet<string>
+  favoriteSites: SiteNode[]
+  recentSites: SiteNode[]
+  prominence: ReadonlyMap<string, number>
+  recordOpen: (siteId: string) => void
+  toggleFavorite: (siteId: string) => void
+  reset: () => void
+  exportData: () => void
+}
+
+export const useSiteUsage = (sites: SiteNode[], storageKey = 'usage'): SiteUsage => {
+  const [data, setData] = usePersistentState(storageKey, EMPTY_USAGE, isUsageData)
+
+  const favoriteIds = useMemo(() => new Set(data.favorites), [data.favorites])
+  const favoriteSites = useMemo(
+    () => sites.filter((site) => favoriteIds.has(site.id)),
+    [favoriteIds, sites],
+  )
+  const recentSites = useMemo(() => selectRecentSites(data, sites, RECENT_LIMIT), [data, sites])
+  const prominence = useMemo(() => computeProminence(data, sites), [data, sites])
+
+  const handleRecordOpen = useCallback(
+    (siteId: string) => setData((current) => recordOpen(current, siteId, Date.now())),
+    [setData],
+  )
+
+  const handleToggleFavorite = useCallback(
+    (siteId: string) => setData((current) => toggleFavorite(current, siteId)),
+    [setData],
+  )
+
+  const reset = useCallback(() => setData(EMPTY_USAGE), [setData])
+
+  const exportData = useCallback(() => {
+    downloadJson('orbnav-usage.json', data)
+  }, [data])
+
+  return {
+    data,
+    favoriteIds,
+    favoriteSites,
+    recentSites,
+    prominence,
+    recordOpen: handleRecordOpen,
+    toggleFavorite: handleToggleFavorite,
+    reset,
+    exportData,
+  }
+}
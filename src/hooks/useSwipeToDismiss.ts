@@ -0,0 +1,85 @@
+import { useRef, useState, type PointerEvent } from 'react'
+
+interface Swipe {
+  pointerId: number
+  startY: number
+  startedAt: number
+}
+
+type SwipeHandler = (event: PointerEvent<HTMLElement>) => void
+
+export interface SwipeToDismiss {
+  /** How far the sheet has been pulled down, in pixels. */
+  offset: number
+  dragging: boolean
+  handlers: {
+    onPointerDown: SwipeHandler
+    onPointerMove: SwipeHandler
+    onPointerUp: SwipeHandler
+    onPointerCancel: SwipeHandler
+  }
+}
+
+const DISMISS_DISTANCE = 120
+const FLICK_DISTANCE = 32
+const FLICK_VELOCITY = 0.6
+
+/** Pull-down-to-close for a bottom sheet, active only while `mediaQuery` matches. */
+export const useSwipeToDismiss = (onDismiss: () => void, mediaQuery: string): SwipeToDismiss => {
+  const swipeRef = useRef<Swipe | null>(null)
+  const [offset, setOffset] = useState(0)
+  const [dragging, setDragging] = useState(false)
+
+  const onPointerDown: SwipeHandler = (event) => {
+    if (
+      event.button !== 0 ||
+      !window.matchMedia(mediaQuery).matches ||
+      (event.target as Element).closest('a, button, input, select')
+    ) {
+      return
+    }
+    swipeRef.current = {
+      pointerId: event.pointerId,
+      startY: event.clientY,
+      startedAt: event.timeStamp,
+    }
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setDragging(true)
+  }
+
+  const onPointerMove: SwipeHandler = (event) => {
+    const swipe = swipeRef.current
+    if (swipe?.pointerId === event.pointerId) {
+      setOffset(Math.max(0, event.clientY - swipe.startY))
+    }
+  }
+
+  const finish = (event: PointerEvent<HTMLElement>, cancelled: boolean) => {
+    const swipe = swipeRef.current
+    if (swipe?.pointerId !== event.pointerId) {
+      return
+    }
+    swipeRef.current = null
+    setDragging(false)
+    setOffset(0)
+    const distance = event.clientY - swipe.startY
+    const velocity = distance / Math.max(event.timeStamp - swipe.startedAt, 1)
+    if (
+      !cancelled &&
+      (distance > DISMISS_DISTANCE || (distance > FLICK_DISTANCE && velocity > FLICK_VELOCITY))
+    ) {
+      onDismiss()
+    }
+  }
+
+  return {
+    offset,
+    dragging,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: (event) => finish(event, false),
+      onPointerCancel: (event) => finish(event, true),
+    },
+  }
+}
@@ -0,0 +1,49 @@
+import { useLayoutEffect, useSyncExternalStore } from 'react'
+import {
+  THEMES,
+  isThemePreference,
+  type Theme,
+  type ThemeId,
+  type ThemePreference,
+} from '../theme/themes'
+import { usePersistentState } from './usePersistentState'
+
+const DARK_QUERY = '(prefers-color-scheme: dark)'
+
+const subscribeToSystemScheme = (onChange: () => void) => {
+  const query = window.matchMedia(DARK_QUERY)
+  query.addEventListener('change', onChange)
+  return () => query.removeEventListener('change', onChange)
+}
+
+const readSystemScheme = (): ThemeId => (window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light')
+
+export const useSystemColorScheme = (): ThemeId =>
+  useSyncExternalStore(subscribeToSystemScheme, readSystemScheme)
+
+export interface ThemeState {
+  theme: Theme
+  preference: ThemePreference
+  setPreference: (preference: ThemePreference) => void
+}
+
+export const useTheme = (themes: Record<ThemeId, Theme> = THEMES): ThemeState => {
+  const [preference, setPreference] = usePersistentState<ThemePreference>(
+    'theme',
+    'system',
+    isThemePreference,
+  )
+  const systemScheme = useSystemColorScheme()
+  const theme = themes[preference === 'system' ? systemScheme : preference]
+
+  useLayoutEffect(() => {
+    const root = document.documentElement
+    for (const [property, value] of Object.entries(theme.css)) {
+      root.style.setProperty(property, value)
+    }
+    root.style.colorScheme = theme.id
+    root.dataset.theme = theme.id
+  }, [theme])
+
+  return { theme, preference, setPreference }
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { resolveTourStops, type ResolvedTourStop, type Tour, type Viewpoint } from '../data/tours'
+import type { SiteNode } from '../types/navigation'
+
+interface TourState {
+  tour: Tour
+  index: number
+  paused: boolean
+  /** Started by the idle timer rather than by hand; any input ends it. */
+  idle: boolean
+}
+
+export interface TourPlayback extends TourState {
+  stops: ResolvedTourStop[]
+  stop: ResolvedTourStop
+}
+
+export interface TourPlayer {
+  playback: TourPlayback | null
+  start: (tour: Tour, options?: { idle?: boolean }) => void
+  exit: () => void
+  togglePause: () => void
+  next: () => void
+  previous: () => void
+}
+
+export const useTourPlayer = (sites: SiteNode[], viewpoints: Viewpoint[]): TourPlayer => {
+  const [state, setState] = useState<TourState | null>(null)
+  const tour = state?.tour ?? null
+  const stops = useMemo(
+    () => (tour ? resolveTourStops(tour, sites, viewpoints) : []),
+    [sites, tour, viewpoints],
+  )
+  const stopCount = stops.length
+
+  // A tour whose sites all left the catalog has nothing to show, so it counts as stopped.
+  const playback = useMemo<TourPlayback | null>(() => {
+    if (!state || stopCount === 0) {
+      return null
+    }
+    const index = Math.min(state.index, stopCount - 1)
+    return { ...state, index, stops, stop: stops[index] }
+  }, [state, stopCount, stops])
+
+  const start = useCallback((nextTour: Tour, { idle = false }: { idle?: boolean } = {}) => {
+    setState({ tour: nextTour, index: 0, paused: false, idle })
+  }, [])
+
+  const exit = useCallback(() => setState(null), [])
+
+  const togglePause = useCallback(() => {
+    setState((current) => (current ? { ...current, paused: !current.paused } : current))
+  }, [])
+
+  const next = useCallback(() => {
+    setState((current) => {
+      if (!current) {
+        return current
+      }
+      if (current.index + 1 < stopCount) {
+        return { ...current, index: current.index + 1 }
+      }
+      return current.tour.loop ? { ...current, index: 0 } : null
+    })
+  }, [stopCount])
+
+  const previous = useCallback(() => {
+    setState((current) =>
+      current ? { ...current, index: Math.max(current.index - 1, 0) } : current,
+    )
+  }, [])
+
+  // Pausing drops the countdown; resuming gives the stop its full time again.
+  useEffect(() => {
+    if (!playback || playback.paused) {
+      return
+    }
+    const timer = window.setTimeout(next, playback.stop.durationMs)
+    return () => {
+      window.clearTimeout(timer)
+    }
+  }, [next, playback])
+
+  return { playback, start, exit, togglePause, next, previous }
+}
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ManifestError, type ManifestIssue } from '../data/manifest'
+import { loadWorkspaces, type Workspace } from '../data/workspaces'
+import { formatSiteRoute } from './useSiteRoute'
+
+const WORKSPACE_QUERY_PARAM = 'workspace'
+
+export type WorkspaceRegistryState =
+  | { status: 'loading' }
+  | { status: 'ready'; workspaces: Workspace[] }
+  | { status: 'error'; message: string; issues: ManifestIssue[] }
+
+export interface WorkspaceSelection {
+  registry: WorkspaceRegistryState
+  /** The workspace named in the URL, or the first one when the URL names none or an unknown one. */
+  active: Workspace | null
+  home: Workspace | null
+  switchTo: (workspaceId: string) => void
+  reload: () => void
+}
+
+const readWorkspaceParam = (): string | null =>
+  new URLSearchParams(window.location.search).get(WORKSPACE_QUERY_PARAM)
+
+export const useWorkspaces = (): WorkspaceSelection => {
+  const [registry, setRegistry] = useState<WorkspaceRegistryState>({ status: 'loading' })
+  const [attempt, setAttempt] = useState(0)
+  const [requestedId, setRequestedId] = useState<string | null>(readWorkspaceParam)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    loadWorkspaces(undefined, controller.signal)
+      .then((workspaces) => {
+        setRegistry({ status: 'ready', workspaces })
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) {
+          return
+        }
+        setRegistry({
+          status: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          issues: error instanceof ManifestError ? error.issues : [],
+        })
+      })
+
+    return () => {
+      controller.abort()
+    }
+  }, [attempt])
+
+  useEffect(() => {
+    const onPopState = () => {
+      setRequestedId(readWorkspaceParam())
+    }
+
+    window.addEventListener('popstate', onPopState)
+    return () => {
+      window.removeEventListener('popstate', onPopState)
+    }
+  }, [])
+
+  const workspaces = registry.status === 'ready' ? registry.workspaces : []
+  const home = workspaces[0] ?? null
+  const active = workspaces.find((workspace) => workspace.id === requestedId) ?? home
+  const homeIdRef = useRef(home?.id)
+
+  useEffect(() => {
+    homeIdRef.current = home?.id
+  }, [home])
+
+  const switchTo = useCallback(
+    (workspaceId: string) => {
+      const url = new URL(window.location.href)
+      if (workspaceId === homeIdRef.current) {
+        url.searchParams.delete(WORKSPACE_QUERY_PARAM)
+      } else {
+        url.searchParams.set(WORKSPACE_QUERY_PARAM, workspaceId)
+      }
+      url.hash = formatSiteRoute(null)
+      if (url.toString() !== window.location.href) {
+        window.history.pushState(null, '', url.toString())
+      }
+      setRequestedId(workspaceId)
+    },
+    [],
+  )
+
+  const reload = useCallback(() => {
+    setRegistry({ status: 'loading' })
+    setAttempt((value) => value + 1)
+  }, [])
+
+  return { registry, active, home, switchTo, reload }
+}
@@ -0,0 +1,268 @@
+export type Locale = 'en' | 'zh-CN'
+
+const en = {
+  'brand.avatar': 'Wingflow avatar',
+  'overlay.shortcuts': 'Favorites and recent sites',
+  'overlay.favorite': 'Favorite',
+  'overlay.exportUsage': 'Export',
+  'overlay.resetUsage': 'Reset',
+  'overlay.resetUsageConfirm': 'Clear favorites and usage history?',
+  'overlay.openTabs': 'Open tabs ({count})',
+  'overlay.editSites': 'Edit sites',
+  'overlay.doneEditing': 'Done editing',
+  'overlay.workspace': 'Workspace',
+  'overlay.environment': 'Environment',
+  'overlay.layout': 'Layout',
+  'overlay.theme': 'Theme',
+  'overlay.language': 'Language',
+  'overlay.views': 'Views',
+  'layout.ring': 'Ring',
+  'layout.clusters': 'Clusters',
+  'layout.spiral': 'Spiral',
+  'theme.system': 'Auto',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'category.portal': 'Portal',
+  'category.ai': 'AI',
+  'category.image': 'Image',
+  'category.tool': 'Tool',
+  'category.service': 'Service',
+  'category.converter': 'Converter',
+  'category.network': 'Network',
+  'category.math': 'Math',
+  'category.dev': 'Dev',
+  'health.unknown': 'Checking',
+  'health.up': 'Up',
+  'health.degraded': 'Degraded',
+  'health.down': 'Down',
+  'health.latency': '{ms} ms',
+  'health.noResponse': 'no response',
+  'health.lastChecked': 'Last checked {time}',
+  'environment.productionName': 'Production',
+  'environment.production': 'Links point at production',
+  'environment.fallback': 'No link for the selected environment; this points at production',
+  'palette.open': 'Search',
+  'palette.label': 'Search sites',
+  'palette.placeholder': 'Search by name, id, category or description',
+  'palette.empty': 'No matching sites',
+  'navigator.label': 'Sites',
+  'catalog.loading': 'Loading site catalog ...',
+  'catalog.unavailable': 'Site catalog unavailable',
+  'catalog.retry': 'Retry',
+  'preview.close': 'Close preview',
+  'preview.untitled': 'Website Title',
+  'preview.loading': 'Loading {name} ...',
+  'preview.showDetails': 'Page blank? Show details',
+  'preview.addFavorite': 'Add to favorites',
+  'preview.removeFavorite': 'Remove from favorites',
+  'preview.panes': 'Panes',
+  'preview.tabs': 'Open sites',
+  'preview.closeTab': 'Close {name}',
+  'siteCard.blocked': 'This site refuses to be shown inside another page.',
+  'siteCard.timeout': 'This site did not finish loading in the preview.',
+  'siteCard.newtab': 'This site opens in its own tab.',
+  'siteCard.open': 'Open in new tab',
+  'siteCard.retry': 'Try embedding again',
+  'editor.label': 'Site editor',
+  'editor.title': 'Edit sites',
+  'editor.close': 'Leave edit mode',
+  'editor.addSite': 'Add site',
+  'editor.undo': 'Undo',
+  'editor.redo': 'Redo',
+  'editor.export': 'Export',
+  'editor.discard': 'Discard',
+  'editor.discardConfirm': 'Discard all local edits and return to the loaded manifest?',
+  'editor.site': 'Site',
+  'editor.choose': 'Click a node or choose…',
+  'editor.id': 'Id',
+  'editor.name': 'Name',
+  'editor.category': 'Category',
+  'editor.url': 'URL',
+  'editor.description': 'Description',
+  'editor.customColor': 'Custom color',
+  'editor.color': 'Color',
+  'editor.pinned': 'Pinned in place',
+  'editor.unpin': 'Unpin',
+  'editor.pinHint': 'Drag the node to pin it in place.',
+  'editor.save': 'Save',
+  'editor.add': 'Add',
+  'editor.delete': 'Delete',
+  'editor.deleteConfirm': 'Delete "{name}"?',
+  'editor.idleHint': 'Click a node to edit it, or drag one to pin its position.',
+  'views.label': 'Viewpoints and tours',
+  'views.viewpoints': 'Viewpoints',
+  'views.overview': 'Overview',
+  'views.namePlaceholder': 'Name this view',
+  'views.defaultName': 'View {count}',
+  'views.save': 'Save current view',
+  'views.delete': 'Delete {name}',
+  'views.tours': 'Tours',
+  'views.allSites': 'All sites',
+  'tour.progress': '{current} of {total}',
+  'tour.previous': 'Previous',
+  'tour.next': 'Next',
+  'tour.pause': 'Pause',
+  'tour.resume': 'Resume',
+  'tour.exit': 'End tour',
+  'tour.screensaver': 'Screensaver',
+  'tour.screensaverHint': 'Move the mouse or press any key to return',
+  'breadcrumbs.label': 'Location',
+  'breadcrumbs.galaxy': 'Galaxy',
+}
+
+export type MessageKey = keyof typeof en
+export type Messages = Record<MessageKey, string>
+
+const zhCN: Messages = {
+  'brand.avatar': 'Wingflow 头像',
+  'overlay.shortcuts': '收藏与最近访问',
+  'overlay.favorite': '已收藏',
+  'overlay.exportUsage': '导出',
+  'overlay.resetUsage': '重置',
+  'overlay.resetUsageConfirm': '清除收藏和使用记录？',
+  'overlay.openTabs': '已打开的标签（{count}）',
+  'overlay.editSites': '编辑站点',
+  'overlay.doneEditing': '完成编辑',
+  'overlay.workspace': '工作区',
+  'overlay.environment': '环境',
+  'overlay.layout': '布局',
+  'overlay.theme': '主题',
+  'overlay.language': '语言',
+  'overlay.views': '视角',
+  'layout.ring': '环形',
+  'layout.clusters': '星团',
+  'layout.spiral': '螺旋',
+  'theme.system': '自动',
+  'theme.light': '浅色',
+  'theme.dark': '深色',
+  'category.portal': '门户',
+  'category.ai': 'AI',
+  'category.image': '图像',
+  'category.tool': '工具',
+  'category.service': '服务',
+  'category.converter': '转换',
+  'category.network': '网络',
+  'category.math': '数学',
+  'category.dev': '开发',
+  'health.unknown': '检测中',
+  'health.up': '正常',
+  'health.degraded': '缓慢',
+  'health.down': '不可用',
+  'health.latency': '{ms} 毫秒',
+  'health.noResponse': '无响应',
+  'health.lastChecked': '上次检测于 {time}',
+  'environment.productionName': '生产环境',
+  'environment.production': '链接指向生产环境',
+  'environment.fallback': '所选环境没有对应链接，此处指向生产环境',
+  'palette.open': '搜索',
+  'palette.label': '搜索站点',
+  'palette.placeholder': '按名称、ID、分类或描述搜索',
+  'palette.empty': '没有匹配的站点',
+  'navigator.label': '站点',
+  'catalog.loading': '正在加载站点目录…',
+  'catalog.unavailable': '站点目录不可用',
+  'catalog.retry': '重试',
+  'preview.close': '关闭预览',
+  'preview.untitled': '网站标题',
+  'preview.loading': '正在加载 {name}…',
+  'preview.showDetails': '页面空白？查看详情',
+  'preview.addFavorite': '加入收藏',
+  'preview.removeFavorite': '取消收藏',
+  'preview.panes': '分屏',
+  'preview.tabs': '已打开的站点',
+  'preview.closeTab': '关闭 {name}',
+  'siteCard.blocked': '该站点不允许在其他页面中显示。',
+  'siteCard.timeout': '该站点未能在预览中加载完成。',
+  'siteCard.newtab': '该站点会在新标签页中打开。',
+  'siteCard.open': '在新标签页打开',
+  'siteCard.retry': '重新尝试嵌入',
+  'editor.label': '站点编辑器',
+  'editor.title': '编辑站点',
+  'editor.close': '退出编辑模式',
+  'editor.addSite': '添加站点',
+  'editor.undo': '撤销',
+  'editor.redo': '重做',
+  'editor.export': '导出',
+  'editor.discard': '放弃修改',
+  'editor.discardConfirm': '放弃所有本地修改并恢复为已加载的清单？',
+  'editor.site': '站点',
+  'editor.choose': '点击节点或在此选择…',
+  'editor.id': 'ID',
+  'editor.name': '名称',
+  'editor.category': '分类',
+  'editor.url': '网址',
+  'editor.description': '描述',
+  'editor.customColor': '自定义颜色',
+  'editor.color': '颜色',
+  'editor.pinned': '已固定位置',
+  'editor.unpin': '取消固定',
+  'editor.pinHint': '拖动节点即可固定其位置。',
+  'editor.save': '保存',
+  'editor.add': '添加',
+  'editor.delete': '删除',
+  'editor.deleteConfirm': '删除“{name}”？',
+  'editor.idleHint': '点击节点进行编辑，或拖动节点固定其位置。',
+  'views.label': '视角与导览',
+  'views.viewpoints': '视角',
+  'views.overview': '全景',
+  'views.namePlaceholder': '为当前视角命名',
+  'views.defaultName': '视角 {count}',
+  'views.save': '保存当前视角',
+  'views.delete': '删除 {name}',
+  'views.tours': '导览',
+  'views.allSites': '全部站点',
+  'tour.progress': '第 {current} / {total} 站',
+  'tour.previous': '上一站',
+  'tour.next': '下一站',
+  'tour.pause': '暂停',
+  'tour.resume': '继续',
+  'tour.exit': '结束导览',
+  'tour.screensaver': '屏幕保护',
+  'tour.screensaverHint': '移动鼠标或按任意键返回',
+  'breadcrumbs.label': '当前位置',
+  'breadcrumbs.galaxy': '星系',
+}
+
+export const MESSAGES: Record<Locale, Messages> = { en, 'zh-CN': zhCN }
+
+/** Locale names are shown in their own language so they stay readable from either side. */
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '中文' },
+  { id: 'en', label: 'English' },
+]
+
+export const isLocale = (value: unknown): value is Locale => value === 'en' || value === 'zh-CN'
+
+/** Picks the first supported language from the browser's preferences, English otherwise. */
+export const detectLocale = (languages: readonly string[] = navigator.languages): Locale => {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0]
+    if (primary === 'zh') {
+      return 'zh-CN'
+    }
+    if (primary === 'en') {
+      return 'en'
+    }
+  }
+  return 'en'
+}
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string
+
+export const createTranslator =
+  (locale: Locale): Translate =>
+  (key, params) => {
+    const template = MESSAGES[locale][key]
+    if (!params) {
+      return template
+    }
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match,
+    )
+  }
+
+/** Category ids double as their fallback label when the catalog has no entry for them. */
+export const translateCategory = (t: Translate, category: string): string => {
+  const key = `category.${category}`
+  return key in MESSAGES.en ? t(key as MessageKey) : category
+}
@@ -0,0 +1,157 @@
+import {
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type Ref,
+} from 'react'
+import { GalaxyCanvas } from '../components/GalaxyCanvas'
+import type { LayoutMode } from '../data/layouts'
+import type { EnvironmentProfile } from '../data/environments'
+import { buildSites, type SiteSeed } from '../data/sites'
+import { useSystemColorScheme } from '../hooks/useTheme'
+import type { QualitySetting } from '../scene/quality'
+import { THEMES, type Theme, type ThemePreference } from '../theme/themes'
+import type { CameraLimits, FocusTransition, HoverState, SiteNode } from '../types/navigation'
+
+export interface OrbnavHandle {
+  /** Flies to the site with this id. Returns false when no such site is loaded. */
+  focus: (siteId: string) => boolean
+  /** Leaves any focused site and returns the camera to the overview. */
+  reset: () => void
+  /** Replaces the rendered sites until the `sites` prop itself changes. */
+  setSites: (sites: SiteSeed[]) => void
+}
+
+export interface OrbnavProps {
+  sites: SiteSeed[]
+  /** Domain that `subdomain` seeds resolve against. */
+  baseDomain?: string
+  /** Resolves urls against this environment instead of production on `baseDomain`. */
+  environment?: EnvironmentProfile
+  /** Locale whose site `translations` are shown, e.g. `en` or `zh-CN`. */
+  locale?: string
+  theme?: ThemePreference | Theme
+  layout?: LayoutMode
+  cameraLimits?: CameraLimits
+  /** Duration, ease and distance of focus flights, unless a site sets its own `focus`. */
+  focusTransition?: FocusTransition
+  quality?: QualitySetting
+  initialFocusId?: string | null
+  className?: string
+  style?: CSSProperties
+  /** Called when a node is clicked, as the camera starts flying to it. */
+  onSelect?: (site: SiteNode) => void
+  /** Called once the camera has arrived at a focused site. */
+  onFocus?: (site: SiteNode) => void
+  onHover?: (hover: HoverState) => void
+  ref?: Ref<OrbnavHandle>
+}
+
+interface OrbnavCallbacks {
+  onSelect?: (site: SiteNode) => void
+  onFocus?: (site: SiteNode) => void
+  onHover?: (hover: HoverState) => void
+}
+
+export function Orbnav({
+  sites,
+  baseDomain,
+  environment,
+  locale,
+  theme = 'system',
+  layout = 'ring',
+  cameraLimits,
+  focusTransition,
+  quality = 'auto',
+  initialFocusId = null,
+  className,
+  style,
+  onSelect,
+  onFocus,
+  onHover,
+  ref,
+}: OrbnavProps) {
+  const systemScheme = useSystemColorScheme()
+  const resolvedTheme =
+    typeof theme === 'object' ? theme : THEMES[theme === 'system' ? systemScheme : theme]
+
+  const [siteSource, setSiteSource] = useState({ prop: sites, seeds: sites })
+  if (siteSource.prop !== sites) {
+    setSiteSource({ prop: sites, seeds: sites })
+  }
+  const nodes = useMemo(
+    () => buildSites(siteSource.seeds, { baseDomain, environment, locale }),
+    [baseDomain, environment, locale, siteSource.seeds],
+  )
+  const nodesRef = useRef(nodes)
+
+  const [focusId, setFocusId] = useState<string | null>(initialFocusId)
+  const focusSite = useMemo(
+    () => nodes.find((site) => site.id === focusId) ?? null,
+    [focusId, nodes],
+  )
+
+  // The scene rebuilds when its callbacks change identity, so hosts' inline handlers go through a ref.
+  const callbacksRef = useRef<OrbnavCallbacks>({ onSelect, onFocus, onHover })
+
+  useEffect(() => {
+    callbacksRef.current = { onSelect, onFocus, onHover }
+  }, [onFocus, onHover, onSelect])
+
+  useEffect(() => {
+    nodesRef.current = nodes
+  }, [nodes])
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      focus: (siteId) => {
+        if (!nodesRef.current.some((site) => site.id === siteId)) {
+          return false
+        }
+        setFocusId(siteId)
+        return true
+      },
+      reset: () => setFocusId(null),
+      setSites: (seeds) => setSiteSource((current) => ({ prop: current.prop, seeds })),
+    }),
+    [],
+  )
+
+  const handleNodeSelect = useCallback((site: SiteNode) => {
+    setFocusId(site.id)
+    callbacksRef.current.onSelect?.(site)
+  }, [])
+
+  const handleHoverChange = useCallback((hover: HoverState) => {
+    callbacksRef.current.onHover?.(hover)
+  }, [])
+
+  const handleFocusComplete = useCallback((site: SiteNode) => {
+    callbacksRef.current.onFocus?.(site)
+  }, [])
+
+  const handleFocusCancel = useCallback(() => setFocusId(null), [])
+
+  return (
+    <div className={className ? `orbnav ${className}` : 'orbnav'} style={style}>
+      <GalaxyCanvas
+        sites={nodes}
+        focusSite={focusSite}
+        layout={layout}
+        theme={resolvedTheme}
+        cameraLimits={cameraLimits}
+        focusTransition={focusTransition}
+        quality={quality}
+        onNodeSelect={handleNodeSelect}
+        onHoverChange={handleHoverChange}
+        onFocusComplete={handleFocusComplete}
+        onFocusCancel={handleFocusCancel}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import './orbnav.css'
+
+export { Orbnav, type OrbnavHandle, type OrbnavProps } from './Orbnav'
+export { mount, type MountedOrbnav, type OrbnavOptions } from './mount'
+export { LAYOUT_MODES, type LayoutMode } from '../data/layouts'
+export { buildSites, type SiteSeed, type SiteTranslation } from '../data/sites'
+export type {
+  EnvironmentProfile,
+  EnvironmentProtocol,
+  SiteEnvironmentOverride,
+} from '../data/environments'
+export { ManifestError, validateManifest, type SiteManifest } from '../data/manifest'
+export type { QualityLevel, QualitySetting } from '../scene/quality'
+export {
+  darkTheme,
+  defineTheme,
+  lightTheme,
+  type Theme,
+  type ThemeId,
+  type ThemePreference,
+} from '../theme/themes'
+export type {
+  CameraLimits,
+  EnvironmentTag,
+  FocusTransition,
+  HoverState,
+  SiteEmbedMode,
+  SiteLink,
+  SiteLinkKind,
+  SiteNode,
+  Vec3,
+} from '../types/navigation'
@@ -0,0 +1,39 @@
+import { createRef } from 'react'
+import { flushSync } from 'react-dom'
+import { createRoot } from 'react-dom/client'
+import { Orbnav, type OrbnavHandle, type OrbnavProps } from './Orbnav'
+
+export type OrbnavOptions = Omit<OrbnavProps, 'ref'>
+
+export interface MountedOrbnav extends OrbnavHandle {
+  /** Merges new options into the current ones and re-renders. */
+  update: (options: Partial<OrbnavOptions>) => void
+  unmount: () => void
+}
+
+/** Renders the galaxy into `element` without requiring the host page to use React. */
+export const mount = (element: HTMLElement, options: OrbnavOptions): MountedOrbnav => {
+  const root = createRoot(element)
+  const handleRef = createRef<OrbnavHandle>()
+  let current = options
+
+  const render = () => {
+    // Rendering synchronously means the handle is usable as soon as mount() returns.
+    flushSync(() => {
+      root.render(<Orbnav {...current} ref={handleRef} />)
+    })
+  }
+
+  render()
+
+  return {
+    focus: (siteId) => handleRef.current?.focus(siteId) ?? false,
+    reset: () => handleRef.current?.reset(),
+    setSites: (sites) => handleRef.current?.setSites(sites),
+    update: (next) => {
+      current = { ...current, ...next }
+      render()
+    },
+    unmount: () => root.unmount(),
+  }
+}
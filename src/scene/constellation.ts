@@ -0,0 +1,117 @@
+import * as THREE from 'three'
+import type { SiteLink, SiteLinkKind } from '../types/navigation'
+
+export interface ConstellationNode {
+  id: string
+  category: string
+  point: THREE.Vector3
+  links?: SiteLink[]
+}
+
+export interface ConstellationEdge {
+  from: number
+  to: number
+  intraCategory: boolean
+  kind: SiteLinkKind | null
+}
+
+const NEAREST_NEIGHBOURS = 2
+const CURVE_SAMPLES = 14
+
+const edgeKey = (a: number, b: number): string => (a < b ? `${a}:${b}` : `${b}:${a}`)
+
+export const hasDeclaredLinks = (nodes: ConstellationNode[]): boolean =>
+  nodes.some((node) => (node.links?.length ?? 0) > 0)
+
+export const selectConstellationEdges = (nodes: ConstellationNode[]): ConstellationEdge[] => {
+  const edges: ConstellationEdge[] = []
+  const seen = new Set<string>()
+
+  const addEdge = (from: number, to: number, kind: SiteLinkKind | null = null) => {
+    const key = edgeKey(from, to)
+    if (from === to || seen.has(key)) {
+      return
+    }
+    seen.add(key)
+    edges.push({ from, to, intraCategory: nodes[from].category === nodes[to].category, kind })
+  }
+
+  if (hasDeclaredLinks(nodes)) {
+    const indexById = new Map(nodes.map((node, index) => [node.id, index]))
+    nodes.forEach((node, index) => {
+      for (const link of node.links ?? []) {
+        const target = indexById.get(link.to)
+        if (target !== undefined) {
+          addEdge(index, target, link.kind)
+        }
+      }
+    })
+    return edges
+  }
+
+  for (let index = 0; index < nodes.length; index += 1) {
+    const from = nodes[index].point
+    const candidates = nodes
+      .map((node, nodeIndex) => ({ nodeIndex, distance: from.distanceToSquared(node.point) }))
+      .filter(({ nodeIndex }) => nodeIndex > index)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, NEAREST_NEIGHBOURS)
+
+    for (const candidate of candidates) {
+      addEdge(index, candidate.nodeIndex)
+    }
+  }
+
+  const lastInCategory = new Map<string, number>()
+  nodes.forEach((node, index) => {
+    const previous = lastInCategory.get(node.category)
+    if (previous !== undefined) {
+      addEdge(previous, index)
+    }
+    lastInCategory.set(node.category, index)
+  })
+
+  return edges
+}
+
+export const collectNeighbours = (edges: ConstellationEdge[], index: number): Set<number> => {
+  const neighbours = new Set<number>()
+  for (const edge of edges) {
+    if (edge.from === index) {
+      neighbours.add(edge.to)
+    } else if (edge.to === index) {
+      neighbours.add(edge.from)
+    }
+  }
+  return neighbours
+}
+
+export const sampleConstellationCurves = (
+  nodes: ConstellationNode[],
+  edges: ConstellationEdge[],
+): THREE.Vector3[] => {
+  const segments: THREE.Vector3[] = []
+
+  for (const edge of edges) {
+    const from = nodes[edge.from].point
+    const to = nodes[edge.to].point
+    const distance = from.distanceTo(to)
+    const midpoint = from.clone().add(to).multiplyScalar(0.5)
+    const curveNormal = midpoint.clone().normalize()
+
+    if (curveNormal.lengthSq() < 0.0001) {
+      curveNormal.set(0, 1, 0)
+    }
+
+    const bend = edge.intraCategory ? 0.12 * distance + 0.6 : 0.2 * distance + 1.2
+    const control = midpoint.addScaledVector(curveNormal, bend)
+    const curve = new THREE.QuadraticBezierCurve3(from, control, to)
+    const sampledPoints = curve.getPoints(CURVE_SAMPLES)
+
+    for (let pointIndex = 0; pointIndex < sampledPoints.length - 1; pointIndex += 1) {
+      segments.push(sampledPoints[pointIndex], sampledPoints[pointIndex + 1])
+    }
+  }
+
+  return segments
+}
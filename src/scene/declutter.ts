@@ -0,0 +1,41 @@
+/** A label's screen-space rectangle in CSS pixels, reused frame to frame. */
+export interface LabelBox {
+  left: number
+  top: number
+  right: number
+  bottom: number
+  /** Higher priorities keep their place; lower ones give way where they overlap. */
+  priority: number
+  /** Written by `declutterLabels`: false when a higher-priority label covers this one. */
+  clear: boolean
+}
+
+export const createLabelBox = (): LabelBox => ({
+  left: 0,
+  top: 0,
+  right: 0,
+  bottom: 0,
+  priority: 0,
+  clear: true,
+})
+
+const overlaps = (a: LabelBox, b: LabelBox): boolean =>
+  a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom
+
+/**
+ * Greedily places labels from the highest priority down, marking each one that collides
+ * with an already placed label. Sorts `boxes` in place.
+ */
+export const declutterLabels = (boxes: LabelBox[]): void => {
+  boxes.sort((a, b) => b.priority - a.priority)
+  for (let index = 0; index < boxes.length; index += 1) {
+    const box = boxes[index]
+    box.clear = true
+    for (let placed = 0; placed < index; placed += 1) {
+      if (boxes[placed].clear && overlaps(box, boxes[placed])) {
+        box.clear = false
+        break
+      }
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import * as THREE from 'three'
+import {
+  createNodeLabel,
+  disposeNodeLabel,
+  setLabelScale,
+  type LabelStyle,
+  type NodeLabel,
+} from './labels'
+
+export interface GalaxyDestination {
+  id: string
+  name: string
+}
+
+/** Another galaxy drawn far out in the deep field, clickable to travel there. */
+export interface DestinationView {
+  destination: GalaxyDestination
+  group: THREE.Group
+  glow: THREE.Sprite
+  label: NodeLabel
+}
+
+export interface DestinationResources {
+  glowTexture: THREE.Texture
+  color: number
+  labelStyle: LabelStyle
+  maxPixelRatio: number
+}
+
+const DESTINATION_RADIUS = 74
+const GLOW_SIZE = 9
+const LABEL_SIZE = 2.6
+
+export const createDestinationView = (
+  destination: GalaxyDestination,
+  index: number,
+  total: number,
+  resources: DestinationResources,
+): DestinationView => {
+  const angle = ((index + 0.5) / total) * Math.PI * 2 + 0.4
+  const group = new THREE.Group()
+  group.position.set(
+    Math.cos(angle) * DESTINATION_RADIUS,
+    10 + (index % 3) * 7,
+    Math.sin(angle) * DESTINATION_RADIUS,
+  )
+
+  // Fog would swallow anything this far out; these stay visible as faint landmarks.
+  const glowMaterial = new THREE.SpriteMaterial({
+    map: resources.glowTexture,
+    color: resources.color,
+    transparent: true,
+    opacity: 0.7,
+    depthWrite: false,
+    fog: false,
+  })
+  const glow = new THREE.Sprite(glowMaterial)
+  glow.scale.setScalar(GLOW_SIZE)
+
+  const label = createNodeLabel(
+    { text: destination.name },
+    resources.labelStyle,
+    resources.maxPixelRatio,
+  )
+  label.material.fog = false
+  label.sprite.position.set(0, GLOW_SIZE * 0.45, 0)
+  setLabelScale(label, LABEL_SIZE)
+
+  group.add(glow, label.sprite)
+  return { destination, group, glow, label }
+}
+
+export const disposeDestinationView = (view: DestinationView): void => {
+  view.group.removeFromParent()
+  view.glow.material.dispose()
+  disposeNodeLabel(view.label)
+}
@@ -0,0 +1,142 @@
+import * as THREE from 'three'
+
+export interface GalaxyParticleOptions {
+  count: number
+  color: THREE.ColorRepresentation
+  opacity: number
+  map: THREE.Texture
+  disturbRadius: number
+  disturbIntensity: number
+}
+
+export interface GalaxyUniforms {
+  uTime: THREE.IUniform<number>
+  uDisturbCenter: THREE.IUniform<THREE.Vector3>
+  uDisturbWeight: THREE.IUniform<number>
+  uDisturbRadius: THREE.IUniform<number>
+  uDisturbIntensity: THREE.IUniform<number>
+}
+
+export interface GalaxyParticles {
+  points: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>
+  uniforms: GalaxyUniforms
+}
+
+const GALAXY_RADIUS = 46
+const GALAXY_THICKNESS = 11
+
+const VERTEX_DECLARATIONS = /* glsl */ `
+uniform float uTime;
+uniform vec3 uDisturbCenter;
+uniform float uDisturbWeight;
+uniform float uDisturbRadius;
+uniform float uDisturbIntensity;
+attribute float aPhase;
+attribute float aSpeed;
+attribute float aAmplitude;
+attribute float aTwist;
+attribute float aPulse;
+`
+
+// Swirl, pulse and vertical wave per particle, then the pointer disturbance field.
+const VERTEX_MOTION = /* glsl */ `
+float radius = length(position.xz);
+float swirl = sin(uTime * aSpeed + aPhase + radius * 0.22) * aTwist;
+float swirlCos = cos(swirl);
+float swirlSin = sin(swirl);
+float pulse = 1.0 + sin(uTime * (aSpeed * 0.72) + aPhase * 1.7 + radius * 0.08) * aPulse;
+
+vec3 transformed = vec3(
+  (position.x * swirlCos - position.z * swirlSin) * pulse,
+  position.y + sin(uTime * (aSpeed * 1.38) + aPhase + radius * 0.19) * aAmplitude,
+  (position.x * swirlSin + position.z * swirlCos) * pulse
+);
+
+if (uDisturbWeight > 0.001) {
+  vec3 offset = transformed - uDisturbCenter;
+  float dist = length(offset);
+  if (dist < uDisturbRadius) {
+    dist += 0.0001;
+    float falloff = 1.0 - dist / uDisturbRadius;
+    float force = falloff * falloff * uDisturbIntensity * uDisturbWeight;
+    float wave = sin(uTime * 2.15 + aPhase + radius * 0.11);
+    transformed.x += (-offset.z / dist) * force;
+    transformed.z += (offset.x / dist) * force;
+    transformed.y += wave * force * 0.78;
+  }
+}
+`
+
+const createGalaxyGeometry = (count: number): THREE.BufferGeometry => {
+  const positions = new Float32Array(count * 3)
+  const phase = new Float32Array(count)
+  const speed = new Float32Array(count)
+  const amplitude = new Float32Array(count)
+  const twist = new Float32Array(count)
+  const pulse = new Float32Array(count)
+
+  for (let index = 0; index < count; index += 1) {
+    const radius = Math.random() * GALAXY_RADIUS
+    const theta = Math.random() * Math.PI * 2
+    const ySpread = (Math.random() - 0.5) * GALAXY_THICKNESS * (1 - radius / GALAXY_RADIUS)
+    const cursor = index * 3
+
+    positions[cursor] = radius * Math.cos(theta)
+    positions[cursor + 1] = ySpread
+    positions[cursor + 2] = radius * Math.sin(theta)
+
+    phase[index] = Math.random() * Math.PI * 2
+    speed[index] = 0.25 + Math.random() * 1.2
+    amplitude[index] = 0.08 + Math.random() * 0.34
+    twist[index] = 0.0018 + Math.random() * 0.009
+    pulse[index] = 0.004 + Math.random() * 0.018
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  geometry.setAttribute('aPhase', new THREE.BufferAttribute(phase, 1))
+  geometry.setAttribute('aSpeed', new THREE.BufferAttribute(speed, 1))
+  geometry.setAttribute('aAmplitude', new THREE.BufferAttribute(amplitude, 1))
+  geometry.setAttribute('aTwist', new THREE.BufferAttribute(twist, 1))
+  geometry.setAttribute('aPulse', new THREE.BufferAttribute(pulse, 1))
+  // Motion and the disturbance field stay within a couple of units of the base disc.
+  geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), GALAXY_RADIUS * 1.05 + 2)
+  return geometry
+}
+
+/**
+ * Galaxy dust animated entirely in the vertex shader. The material stays a PointsMaterial so
+ * size attenuation, fog, the sprite map and theme colour/opacity tweens behave as before.
+ */
+export const createGalaxyParticles = (options: GalaxyParticleOptions): GalaxyParticles => {
+  const uniforms: GalaxyUniforms = {
+    uTime: { value: 0 },
+    uDisturbCenter: { value: new THREE.Vector3() },
+    uDisturbWeight: { value: 0 },
+    uDisturbRadius: { value: options.disturbRadius },
+    uDisturbIntensity: { value: options.disturbIntensity },
+  }
+
+  const material = new THREE.PointsMaterial({
+    size: 0.18,
+    color: options.color,
+    map: options.map,
+    alphaTest: 0.15,
+    depthWrite: false,
+    transparent: true,
+    opacity: options.opacity,
+  })
+
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${VERTEX_DECLARATIONS}`)
+      .replace('#include <begin_vertex>', VERTEX_MOTION)
+  }
+  material.customProgramCacheKey = () => 'orbnav-galaxy-particles'
+
+  return {
+    points: new THREE.Points(createGalaxyGeometry(options.count), material),
+    uniforms,
+  }
+}
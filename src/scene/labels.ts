@@ -0,0 +1,241 @@
+import * as THREE from 'three'
+import type { EnvironmentTag } from '../types/navigation'
+
+export interface LabelStyle {
+  fill: string
+  stroke: string
+}
+
+export interface LabelContent {
+  text: string
+  /** Smaller second line under the name, e.g. the category. */
+  caption?: string
+  /** Drawn as a pill under the text; production gets a warning color. */
+  tag?: EnvironmentTag
+}
+
+export interface NodeLabel extends LabelContent {
+  /** The style last drawn with, reused when a late-loading font needs a redraw. */
+  style: LabelStyle
+  canvas: HTMLCanvasElement
+  sprite: THREE.Sprite
+  material: THREE.SpriteMaterial
+  /** Replaced whenever the canvas is resized, so read it from here rather than keeping it. */
+  texture: THREE.CanvasTexture
+  /** Layout size in label units, before the pixel ratio; see `setLabelScale`. */
+  width: number
+  height: number
+  pixelRatio: number
+  /** The quality preset's cap on the screen's pixel ratio, which the oversampling starts from. */
+  maxPixelRatio: number
+  /** Set by `disposeNodeLabel`, so a font that arrives afterwards doesn't redraw it. */
+  disposed: boolean
+}
+
+// A label of this height is one world unit tall at scale 1; the name line is sized against it.
+const REFERENCE_HEIGHT = 120
+const PADDING_X = 18
+const PADDING_Y = 8
+const NAME_LINE = 60
+const CAPTION_LINE = 34
+const TAG_HEIGHT = 32
+const TAG_GAP = 6
+const MAX_TEXT_WIDTH = 560
+// Labels are magnified up close, so they are rasterized above the screen's own density.
+const OVERSAMPLE = 1.5
+const MAX_PIXEL_RATIO = 4
+// CJK names fall through the Latin face to a serif that has the glyphs.
+const LABEL_FONT =
+  '600 48px "Cormorant Garamond", "Noto Serif SC", "Source Han Serif SC", "Songti SC", serif'
+const CAPTION_FONT =
+  '500 26px "Cormorant Garamond", "Noto Serif SC", "Source Han Serif SC", "Songti SC", serif'
+const TAG_FONT = '600 24px "Noto Sans SC", "PingFang SC", "Microsoft YaHei", system-ui, sans-serif'
+const TAG_FILL = 'rgba(92, 132, 204, 0.88)'
+const PRODUCTION_TAG_FILL = 'rgba(214, 84, 60, 0.92)'
+
+export const labelPixelRatio = (maxPixelRatio: number): number =>
+  Math.min(Math.min(window.devicePixelRatio || 1, maxPixelRatio) * OVERSAMPLE, MAX_PIXEL_RATIO)
+
+const measure = (context: CanvasRenderingContext2D, font: string, text: string): number => {
+  context.font = font
+  return context.measureText(text).width
+}
+
+/** Shortens `text` with an ellipsis until it fits `maxWidth`, for names too long to show whole. */
+const fitText = (
+  context: CanvasRenderingContext2D,
+  font: string,
+  text: string,
+  maxWidth: number,
+): string => {
+  if (measure(context, font, text) <= maxWidth) {
+    return text
+  }
+  const characters = Array.from(text)
+  while (characters.length > 1 && measure(context, font, `${characters.join('')}…`) > maxWidth) {
+    characters.pop()
+  }
+  return `${characters.join('')}…`
+}
+
+const createTexture = (canvas: HTMLCanvasElement): THREE.CanvasTexture => {
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  texture.minFilter = THREE.LinearMipmapLinearFilter
+  texture.magFilter = THREE.LinearFilter
+  return texture
+}
+
+// Canvas text never triggers a web font download, so glyph subsets the label needs are
+// requested explicitly and the label is redrawn once they arrive.
+const loadLabelFont = (label: NodeLabel): void => {
+  const fonts = document.fonts
+  const text = [label.text, label.caption ?? ''].join('')
+  if (!fonts || fonts.check(LABEL_FONT, text)) {
+    return
+  }
+  fonts.load(LABEL_FONT, text).then(
+    (faces) => {
+      if (
+        !label.disposed &&
+        faces.length > 0 &&
+        [label.text, label.caption ?? ''].join('') === text
+      ) {
+        drawNodeLabel(label, label.style)
+      }
+    },
+    () => {},
+  )
+}
+
+/**
+ * Lays the label out around its measured text and redraws it at the current pixel ratio,
+ * resizing the canvas (and swapping its texture) when the size changes.
+ */
+export const drawNodeLabel = (label: NodeLabel, style: LabelStyle): void => {
+  const context = label.canvas.getContext('2d')
+  if (!context) {
+    return
+  }
+  label.style = style
+  loadLabelFont(label)
+
+  const name = fitText(context, LABEL_FONT, label.text, MAX_TEXT_WIDTH)
+  const caption = label.caption
+    ? fitText(context, CAPTION_FONT, label.caption, MAX_TEXT_WIDTH)
+    : null
+  const tagText = label.tag ? label.tag.name.toUpperCase() : null
+  const tagWidth = tagText ? measure(context, TAG_FONT, tagText) + 28 : 0
+
+  const contentWidth = Math.max(
+    measure(context, LABEL_FONT, name),
+    caption ? measure(context, CAPTION_FONT, caption) : 0,
+    tagWidth,
+  )
+  const width = Math.ceil(contentWidth + PADDING_X * 2)
+  const height =
+    PADDING_Y * 2 + NAME_LINE + (caption ? CAPTION_LINE : 0) + (tagText ? TAG_HEIGHT + TAG_GAP : 0)
+  const pixelRatio = labelPixelRatio(label.maxPixelRatio)
+  const canvasWidth = Math.ceil(width * pixelRatio)
+  const canvasHeight = Math.ceil(height * pixelRatio)
+
+  if (label.canvas.width !== canvasWidth || label.canvas.height !== canvasHeight) {
+    label.canvas.width = canvasWidth
+    label.canvas.height = canvasHeight
+    label.texture.dispose()
+    label.texture = createTexture(label.canvas)
+    label.material.map = label.texture
+  }
+  label.width = width
+  label.height = height
+  label.pixelRatio = pixelRatio
+
+  context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+  context.clearRect(0, 0, width, height)
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+  context.strokeStyle = style.stroke
+  context.fillStyle = style.fill
+
+  let y = PADDING_Y + NAME_LINE / 2
+  context.font = LABEL_FONT
+  context.lineWidth = 8
+  context.strokeText(name, width / 2, y + 1)
+  context.fillText(name, width / 2, y + 1)
+  y += NAME_LINE / 2
+
+  if (caption) {
+    y += CAPTION_LINE / 2
+    context.font = CAPTION_FONT
+    context.lineWidth = 5
+    context.globalAlpha = 0.78
+    context.strokeText(caption, width / 2, y)
+    context.fillText(caption, width / 2, y)
+    context.globalAlpha = 1
+    y += CAPTION_LINE / 2
+  }
+
+  if (label.tag && tagText) {
+    const top = y + TAG_GAP
+    context.font = TAG_FONT
+    context.fillStyle = label.tag.production ? PRODUCTION_TAG_FILL : TAG_FILL
+    context.beginPath()
+    context.roundRect((width - tagWidth) / 2, top, tagWidth, TAG_HEIGHT, TAG_HEIGHT / 2)
+    context.fill()
+    context.fillStyle = '#ffffff'
+    context.fillText(tagText, width / 2, top + TAG_HEIGHT / 2 + 1)
+  }
+
+  label.texture.needsUpdate = true
+}
+
+/** Sizes the sprite so text stays the same size whatever lines and tag the label holds. */
+export const setLabelScale = (label: NodeLabel, scale: number): void => {
+  label.sprite.scale.set(
+    (label.width / REFERENCE_HEIGHT) * scale,
+    (label.height / REFERENCE_HEIGHT) * scale,
+    1,
+  )
+}
+
+export const createNodeLabel = (
+  content: LabelContent,
+  style: LabelStyle,
+  maxPixelRatio: number,
+): NodeLabel => {
+  const canvas = document.createElement('canvas')
+  const texture = createTexture(canvas)
+
+  const material = new THREE.SpriteMaterial({
+    map: texture,
+    transparent: true,
+    depthWrite: false,
+    opacity: 0.92,
+  })
+
+  const sprite = new THREE.Sprite(material)
+  sprite.center.set(0.5, 0)
+
+  const label: NodeLabel = {
+    ...content,
+    style,
+    canvas,
+    sprite,
+    material,
+    texture,
+    width: 0,
+    height: 0,
+    pixelRatio: 1,
+    maxPixelRatio,
+    disposed: false,
+  }
+  drawNodeLabel(label, style)
+  setLabelScale(label, 1.1)
+  return label
+}
+
+export const disposeNodeLabel = (label: NodeLabel): void => {
+  label.disposed = true
+  label.material.dispose()
+  label.texture.dispose()
+}
@@ -0,0 +1,134 @@
+export type QualityLevel = 'ultra' | 'high' | 'low' | 'minimal'
+
+export type QualitySetting = QualityLevel | 'auto'
+
+export interface QualityPreset {
+  galaxyParticles: number
+  deepParticles: number
+  sphereSegments: number
+  antialias: boolean
+  maxPixelRatio: number
+}
+
+/** Ordered from most to least expensive; the governor steps along this list. */
+export const QUALITY_LEVELS: QualityLevel[] = ['ultra', 'high', 'low', 'minimal']
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  ultra: {
+    galaxyParticles: 30000,
+    deepParticles: 8000,
+    sphereSegments: 48,
+    antialias: true,
+    maxPixelRatio: 2,
+  },
+  high: {
+    galaxyParticles: 3000,
+    deepParticles: 2200,
+    sphereSegments: 32,
+    antialias: true,
+    maxPixelRatio: 2,
+  },
+  low: {
+    galaxyParticles: 1600,
+    deepParticles: 1100,
+    sphereSegments: 20,
+    antialias: false,
+    maxPixelRatio: 1.5,
+  },
+  minimal: {
+    galaxyParticles: 700,
+    deepParticles: 500,
+    sphereSegments: 12,
+    antialias: false,
+    maxPixelRatio: 1,
+  },
+}
+
+export const MAX_GALAXY_PARTICLES = Math.max(
+  ...QUALITY_LEVELS.map((level) => QUALITY_PRESETS[level].galaxyParticles),
+)
+export const MAX_DEEP_PARTICLES = Math.max(
+  ...QUALITY_LEVELS.map((level) => QUALITY_PRESETS[level].deepParticles),
+)
+
+export const isQualitySetting = (value: unknown): value is QualitySetting =>
+  value === 'auto' || QUALITY_LEVELS.includes(value as QualityLevel)
+
+export interface QualityGovernorOptions {
+  initial?: QualityLevel
+  /** Average frame time above which the governor steps down. */
+  slowFrameMs?: number
+  /** Average frame time below which the governor may step back up. */
+  fastFrameMs?: number
+  windowSize?: number
+  cooldownMs?: number
+  onChange: (level: QualityLevel) => void
+}
+
+export interface QualityGovernor {
+  readonly level: QualityLevel
+  sample: (frameMs: number, now: number) => void
+  reset: () => void
+}
+
+const DEFAULT_SLOW_FRAME_MS = 1000 / 45
+// Frame times are vsync-paced, so a 60 Hz display averages about 16.7 ms however light the
+// scene is; stepping up takes frames clearly shorter than that, i.e. a faster display.
+const DEFAULT_FAST_FRAME_MS = 1000 / 75
+const DEFAULT_WINDOW_SIZE = 90
+const DEFAULT_COOLDOWN_MS = 4000
+// Frames longer than this are stalls (tab switch, GC, shader compile), not a steady cost.
+const MAX_SAMPLE_MS = 250
+
+export const createQualityGovernor = (options: QualityGovernorOptions): QualityGovernor => {
+  const slowFrameMs = options.slowFrameMs ?? DEFAULT_SLOW_FRAME_MS
+  const fastFrameMs = options.fastFrameMs ?? DEFAULT_FAST_FRAME_MS
+  const windowSize = options.windowSize ?? DEFAULT_WINDOW_SIZE
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS
+
+  let level = options.initial ?? 'high'
+  let total = 0
+  let count = 0
+  let changedAt = Number.NEGATIVE_INFINITY
+  // Index of the most expensive level still allowed. A level that proved too slow is never
+  // retried, which keeps the governor from oscillating between two presets.
+  let ceiling = 0
+
+  const reset = () => {
+    total = 0
+    count = 0
+  }
+
+  const moveTo = (index: number, now: number) => {
+    level = QUALITY_LEVELS[index]
+    changedAt = now
+    reset()
+    options.onChange(level)
+  }
+
+  return {
+    get level() {
+      return level
+    },
+    sample: (frameMs, now) => {
+      if (frameMs > MAX_SAMPLE_MS || now - changedAt < cooldownMs) {
+        return
+      }
+      total += frameMs
+      count += 1
+      if (count < windowSize) {
+        return
+      }
+      const average = total / count
+      reset()
+      const index = QUALITY_LEVELS.indexOf(level)
+      if (average > slowFrameMs && index < QUALITY_LEVELS.length - 1) {
+        ceiling = Math.max(ceiling, index + 1)
+        moveTo(index + 1, now)
+      } else if (average < fastFrameMs && index - 1 >= ceiling) {
+        moveTo(index - 1, now)
+      }
+    },
+    reset,
+  }
+}
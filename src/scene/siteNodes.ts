@@ -0,0 +1,223 @@
+import * as THREE from 'three'
+import { resolveNodeColor } from '../data/sites'
+import type { Theme } from '../theme/themes'
+import type { SiteNode, Vec3 } from '../types/navigation'
+import { createLabelBox, type LabelBox } from './declutter'
+import { createNodeLabel, disposeNodeLabel, drawNodeLabel, type NodeLabel } from './labels'
+
+export type NodeMesh = THREE.Mesh<THREE.SphereGeometry, THREE.MeshLambertMaterial> & {
+  userData: { site: SiteNode }
+}
+
+export type NodeGroup = THREE.Group & {
+  userData: {
+    baseY: number
+    floatOffset: number
+    floatSpeed: number
+  }
+}
+
+/** Everything the scene keeps for one site, plus the animated emphasis state the frame loop eases. */
+export interface SiteNodeView {
+  site: SiteNode
+  group: NodeGroup
+  sphere: NodeMesh
+  ring: THREE.Mesh<THREE.RingGeometry, THREE.MeshBasicMaterial>
+  /** Invisible pick target around the sphere, so small nodes are easy to hit. */
+  hitArea: THREE.Mesh
+  label: NodeLabel
+  labelBox: LabelBox
+  /** 1 while the label has room on screen, eased toward 0 while another label covers it. */
+  labelClear: number
+  baseColor: THREE.Color
+  baseEmissive: THREE.Color
+  alertColor: THREE.Color
+  value: number
+  related: number
+  alert: number
+  /** Usage emphasis between 0 and 1, eased toward the latest prominence score. */
+  prominence: number
+  /** 0 before the enter animation and after the exit animation, 1 while fully shown. */
+  presence: number
+  leaving: boolean
+  /** Moons standing in for a system's children while it is collapsed; null for plain sites. */
+  moons: THREE.Group | null
+  moonMaterial: THREE.MeshLambertMaterial
+  /** Whether the system's children are in the scene, so its moons should fade out. */
+  expanded: boolean
+  /** 1 while the moons are shown, eased toward 0 while the system is expanded. */
+  moonPresence: number
+  /** Base scale of the node; children are drawn smaller than the sites they orbit. */
+  size: number
+}
+
+export interface SiteNodeResources {
+  sphereGeometry: THREE.SphereGeometry
+  moonGeometry: THREE.SphereGeometry
+  ringGeometry: THREE.RingGeometry
+  hitGeometry: THREE.BufferGeometry
+  hitMaterial: THREE.Material
+  ringColor: THREE.Color
+  theme: Theme
+  /** The quality preset's pixel ratio cap, which labels are rasterized against. */
+  maxPixelRatio: number
+}
+
+const CHILD_NODE_SCALE = 0.65
+const MAX_MOONS = 5
+const MOON_ORBIT_RADIUS = 1.45
+
+const applyNodeColors = (view: SiteNodeView, theme: Theme) => {
+  view.baseColor.setHex(resolveNodeColor(view.site, theme.nodes.lightness))
+  view.baseEmissive.copy(view.baseColor).multiplyScalar(theme.nodes.emissiveScale)
+  view.sphere.material.color.copy(view.baseColor)
+  view.moonMaterial.color.copy(view.baseColor)
+}
+
+// A collapsed system shows up to MAX_MOONS moons however many children it has.
+const createMoons = (
+  count: number,
+  geometry: THREE.SphereGeometry,
+  material: THREE.Material,
+): THREE.Group | null => {
+  if (count === 0) {
+    return null
+  }
+  const moons = new THREE.Group()
+  const shown = Math.min(count, MAX_MOONS)
+  for (let index = 0; index < shown; index += 1) {
+    const angle = (index / shown) * Math.PI * 2
+    const moon = new THREE.Mesh(geometry, material)
+    moon.position.set(
+      Math.cos(angle) * MOON_ORBIT_RADIUS,
+      Math.sin(angle * 2) * 0.18,
+      Math.sin(angle) * MOON_ORBIT_RADIUS,
+    )
+    moons.add(moon)
+  }
+  return moons
+}
+
+export const createSiteNodeView = (
+  site: SiteNode,
+  position: Vec3,
+  resources: SiteNodeResources,
+): SiteNodeView => {
+  const group = new THREE.Group() as NodeGroup
+  group.position.set(position.x, position.y, position.z)
+  group.userData = {
+    baseY: position.y,
+    floatOffset: Math.random() * Math.PI * 2,
+    floatSpeed: 1 + Math.random() * 0.5,
+  }
+
+  const sphereMaterial = new THREE.MeshLambertMaterial({ transparent: true })
+  const sphere = new THREE.Mesh(resources.sphereGeometry, sphereMaterial) as NodeMesh
+  sphere.userData = { site }
+
+  const ringMaterial = new THREE.MeshBasicMaterial({
+    color: resources.ringColor,
+    side: THREE.DoubleSide,
+    transparent: true,
+    opacity: 0.24,
+  })
+  const ring = new THREE.Mesh(resources.ringGeometry, ringMaterial)
+  ring.rotation.x = Math.PI / 2
+
+  // Raycasts ignore `visible`, so the hidden proxy still catches picks while never rendering.
+  const hitArea = new THREE.Mesh(resources.hitGeometry, resources.hitMaterial)
+  hitArea.visible = false
+  sphere.add(hitArea)
+
+  const label = createNodeLabel(
+    { text: site.name, caption: site.caption, tag: site.environment },
+    resources.theme.labels,
+    resources.maxPixelRatio,
+  )
+  label.sprite.position.set(0, 1.25, 0)
+
+  group.add(label.sprite, sphere, ring)
+
+  const moonMaterial = new THREE.MeshLambertMaterial({ transparent: true })
+  const moons = createMoons(site.childIds?.length ?? 0, resources.moonGeometry, moonMaterial)
+  if (moons) {
+    group.add(moons)
+  }
+
+  const view: SiteNodeView = {
+    site,
+    group,
+    sphere,
+    ring,
+    hitArea,
+    label,
+    labelBox: createLabelBox(),
+    labelClear: 1,
+    baseColor: new THREE.Color(),
+    baseEmissive: new THREE.Color(),
+    alertColor: new THREE.Color(),
+    value: 1,
+    related: 0,
+    alert: 0,
+    prominence: 0,
+    presence: 0,
+    leaving: false,
+    moons,
+    moonMaterial,
+    expanded: false,
+    moonPresence: 1,
+    size: site.parentId ? CHILD_NODE_SCALE : 1,
+  }
+  applyNodeColors(view, resources.theme)
+  sphereMaterial.emissive.copy(view.baseEmissive)
+  return view
+}
+
+/** Brings an existing view in line with a changed site without rebuilding its meshes. */
+export const updateSiteNodeView = (
+  view: SiteNodeView,
+  site: SiteNode,
+  { theme, moonGeometry }: Pick<SiteNodeResources, 'theme' | 'moonGeometry'>,
+): void => {
+  const previous = view.site
+  view.site = site
+  view.sphere.userData = { site }
+  view.size = site.parentId ? CHILD_NODE_SCALE : 1
+
+  const childCount = site.childIds?.length ?? 0
+  if (childCount !== (previous.childIds?.length ?? 0)) {
+    view.moons?.removeFromParent()
+    view.moons = createMoons(childCount, moonGeometry, view.moonMaterial)
+    if (view.moons) {
+      view.group.add(view.moons)
+    }
+  }
+
+  if (
+    site.name !== previous.name ||
+    site.caption !== previous.caption ||
+    site.environment?.name !== previous.environment?.name ||
+    site.environment?.production !== previous.environment?.production
+  ) {
+    view.label.text = site.name
+    view.label.caption = site.caption
+    view.label.tag = site.environment
+    drawNodeLabel(view.label, theme.labels)
+  }
+
+  if (
+    site.color !== previous.color ||
+    site.customColor !== previous.customColor ||
+    site.category !== previous.category
+  ) {
+    applyNodeColors(view, theme)
+  }
+}
+
+export const disposeSiteNodeView = (view: SiteNodeView): void => {
+  view.group.removeFromParent()
+  view.sphere.material.dispose()
+  view.moonMaterial.dispose()
+  view.ring.material.dispose()
+  disposeNodeLabel(view.label)
+}
@@ -0,0 +1,220 @@
+export type HealthStatus = 'unknown' | 'up' | 'degraded' | 'down'
+
+export interface HealthTarget {
+  id: string
+  url: string
+}
+
+export interface HealthSample {
+  at: number
+  status: Exclude<HealthStatus, 'unknown'>
+  latencyMs: number | null
+  httpStatus?: number
+  error?: string
+}
+
+export interface SiteHealth {
+  status: HealthStatus
+  latencyMs: number | null
+  checkedAt: number | null
+  history: HealthSample[]
+}
+
+export interface HealthProbeContext {
+  fetch: typeof fetch
+  timeoutMs: number
+  degradedLatencyMs: number
+  signal: AbortSignal
+  now: () => number
+}
+
+export type HealthProbe = (target: HealthTarget, context: HealthProbeContext) => Promise<HealthSample>
+
+export interface HealthCheckerOptions {
+  fetch?: typeof fetch
+  probe?: HealthProbe
+  intervalMs?: number
+  timeoutMs?: number
+  degradedLatencyMs?: number
+  historySize?: number
+  /** Wall clock in epoch milliseconds; stamps samples and `checkedAt` alike. */
+  now?: () => number
+}
+
+export type HealthSnapshot = ReadonlyMap<string, SiteHealth>
+
+export interface HealthChecker {
+  setTargets: (targets: HealthTarget[]) => void
+  start: () => void
+  stop: () => void
+  checkNow: () => Promise<void>
+  getSnapshot: () => HealthSnapshot
+  subscribe: (listener: (snapshot: HealthSnapshot) => void) => () => void
+}
+
+export const UNKNOWN_HEALTH: SiteHealth = {
+  status: 'unknown',
+  latencyMs: null,
+  checkedAt: null,
+  history: [],
+}
+
+const DEFAULT_INTERVAL_MS = 60_000
+const DEFAULT_TIMEOUT_MS = 8_000
+const DEFAULT_DEGRADED_LATENCY_MS = 1_500
+const DEFAULT_HISTORY_SIZE = 20
+
+export const httpProbe: HealthProbe = async (target, context) => {
+  const startedAt = context.now()
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  const timer = setTimeout(abort, context.timeoutMs)
+  context.signal.addEventListener('abort', abort)
+
+  try {
+    const response = await context.fetch(target.url, {
+      method: 'GET',
+      mode: 'no-cors',
+      cache: 'no-store',
+      redirect: 'follow',
+      signal: controller.signal,
+    })
+    const latencyMs = Math.round(context.now() - startedAt)
+
+    // Cross-origin sites answer with an opaque response: reachable, but the status is hidden.
+    if (response.type === 'opaque') {
+      return {
+        at: startedAt,
+        status: latencyMs > context.degradedLatencyMs ? 'degraded' : 'up',
+        latencyMs,
+      }
+    }
+
+    const status =
+      response.status >= 500
+        ? 'down'
+        : response.status >= 400 || latencyMs > context.degradedLatencyMs
+          ? 'degraded'
+          : 'up'
+    return { at: startedAt, status, latencyMs, httpStatus: response.status }
+  } catch (error) {
+    const timedOut = controller.signal.aborted && !context.signal.aborted
+    return {
+      at: startedAt,
+      status: 'down',
+      latencyMs: null,
+      error: timedOut
+        ? `No response within ${context.timeoutMs} ms`
+        : error instanceof Error
+          ? error.message
+          : String(error),
+    }
+  } finally {
+    clearTimeout(timer)
+    context.signal.removeEventListener('abort', abort)
+  }
+}
+
+export const createHealthChecker = (options: HealthCheckerOptions = {}): HealthChecker => {
+  const fetchImpl = options.fetch ?? ((input, init) => window.fetch(input, init))
+  const probe = options.probe ?? httpProbe
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const degradedLatencyMs = options.degradedLatencyMs ?? DEFAULT_DEGRADED_LATENCY_MS
+  const historySize = options.historySize ?? DEFAULT_HISTORY_SIZE
+  const now = options.now ?? (() => Date.now())
+
+  let targets: HealthTarget[] = []
+  let snapshot: HealthSnapshot = new Map()
+  let timer: ReturnType<typeof setInterval> | null = null
+  let controller: AbortController | null = null
+  const listeners = new Set<(snapshot: HealthSnapshot) => void>()
+
+  const publish = (next: HealthSnapshot) => {
+    snapshot = next
+    for (const listener of listeners) {
+      listener(snapshot)
+    }
+  }
+
+  const record = (id: string, sample: HealthSample) => {
+    if (!targets.some((target) => target.id === id)) {
+      return
+    }
+    const previous = snapshot.get(id) ?? UNKNOWN_HEALTH
+    const next = new Map(snapshot)
+    next.set(id, {
+      status: sample.status,
+      latencyMs: sample.latencyMs,
+      checkedAt: now(),
+      history: [...previous.history, sample].slice(-historySize),
+    })
+    publish(next)
+  }
+
+  const checkNow = async () => {
+    controller?.abort()
+    const round = new AbortController()
+    controller = round
+
+    await Promise.all(
+      targets.map(async (target) => {
+        const startedAt = now()
+        let sample: HealthSample
+        // A custom probe that throws counts as a failed check rather than ending the round.
+        try {
+          sample = await probe(target, {
+            fetch: fetchImpl,
+            timeoutMs,
+            degradedLatencyMs,
+            signal: round.signal,
+            now,
+          })
+        } catch (error) {
+          sample = {
+            at: startedAt,
+            status: 'down',
+            latencyMs: null,
+            error: error instanceof Error ? error.message : String(error),
+          }
+        }
+        if (!round.signal.aborted) {
+          record(target.id, sample)
+        }
+      }),
+    )
+  }
+
+  const stop = () => {
+    if (timer !== null) {
+      clearInterval(timer)
+      timer = null
+    }
+    controller?.abort()
+    controller = null
+  }
+
+  return {
+    setTargets: (nextTargets) => {
+      targets = nextTargets
+      const ids = new Set(nextTargets.map((target) => target.id))
+      publish(new Map([...snapshot].filter(([id]) => ids.has(id))))
+    },
+    start: () => {
+      stop()
+      void checkNow()
+      timer = setInterval(() => {
+        void checkNow()
+      }, intervalMs)
+    },
+    stop,
+    checkNow,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
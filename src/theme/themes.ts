@@ -0,0 +1,171 @@
+export type ThemeId = 'light' | 'dark'
+
+export type ThemePreference = ThemeId | 'system'
+
+export interface LightnessRange {
+  min: number
+  max: number
+}
+
+export interface Theme {
+  id: ThemeId
+  scene: {
+    background: number
+    fogDensity: number
+  }
+  particles: {
+    galaxyColor: number
+    galaxyOpacity: number
+    deepColor: number
+    deepOpacity: number
+  }
+  labels: {
+    fill: string
+    stroke: string
+  }
+  lights: {
+    sky: number
+    ground: number
+    hemiIntensity: number
+    keyIntensity: number
+    fillIntensity: number
+  }
+  nodes: {
+    lightness: LightnessRange
+    emissiveScale: number
+    ring: number
+  }
+  lines: {
+    color: number
+    relation: number
+  }
+  css: Record<string, string>
+}
+
+export const lightTheme: Theme = {
+  id: 'light',
+  scene: {
+    background: 0xfaf9f5,
+    fogDensity: 0.014,
+  },
+  particles: {
+    galaxyColor: 0x777777,
+    galaxyOpacity: 0.62,
+    deepColor: 0xffffff,
+    deepOpacity: 0.5,
+  },
+  labels: {
+    fill: 'rgba(58, 54, 49, 0.96)',
+    stroke: 'rgba(250, 249, 245, 0.9)',
+  },
+  lights: {
+    sky: 0xffffff,
+    ground: 0xe7e1d3,
+    hemiIntensity: 0.96,
+    keyIntensity: 0.46,
+    fillIntensity: 0.28,
+  },
+  nodes: {
+    lightness: { min: 76, max: 84 },
+    emissiveScale: 0.08,
+    ring: 0x7f786d,
+  },
+  lines: {
+    color: 0x746e63,
+    relation: 0x3a3631,
+  },
+  css: {
+    '--bg': '#faf9f5',
+    '--text': '#333333',
+    '--text-muted': '#666666',
+    '--line': 'rgba(0, 0, 0, 0.1)',
+    '--line-strong': 'rgba(0, 0, 0, 0.3)',
+    '--card-bg': 'rgba(255, 255, 255, 0.65)',
+    '--surface': 'rgba(255, 255, 255, 0.92)',
+    '--surface-muted': 'rgba(250, 247, 241, 0.52)',
+    '--frame-bg': '#ffffff',
+    '--ink': '#38342f',
+    '--ink-contrast': '#faf9f5',
+    '--hover-tint': 'rgba(0, 0, 0, 0.06)',
+    '--shadow': '0 24px 68px rgba(0, 0, 0, 0.11)',
+  },
+}
+
+export const darkTheme: Theme = {
+  id: 'dark',
+  scene: {
+    background: 0x0b0e17,
+    fogDensity: 0.011,
+  },
+  particles: {
+    galaxyColor: 0xa9b4d6,
+    galaxyOpacity: 0.72,
+    deepColor: 0xdfe6ff,
+    deepOpacity: 0.78,
+  },
+  labels: {
+    fill: 'rgba(232, 230, 240, 0.96)',
+    stroke: 'rgba(11, 14, 23, 0.88)',
+  },
+  lights: {
+    sky: 0xdfe6ff,
+    ground: 0x1a2033,
+    hemiIntensity: 0.72,
+    keyIntensity: 0.62,
+    fillIntensity: 0.22,
+  },
+  nodes: {
+    lightness: { min: 60, max: 70 },
+    emissiveScale: 0.32,
+    ring: 0x8c96b8,
+  },
+  lines: {
+    color: 0x8c96b8,
+    relation: 0xe4e8f6,
+  },
+  css: {
+    '--bg': '#0b0e17',
+    '--text': '#e6e4ee',
+    '--text-muted': '#9a9cb0',
+    '--line': 'rgba(255, 255, 255, 0.12)',
+    '--line-strong': 'rgba(255, 255, 255, 0.32)',
+    '--card-bg': 'rgba(20, 24, 38, 0.7)',
+    '--surface': 'rgba(22, 26, 40, 0.94)',
+    '--surface-muted': 'rgba(30, 35, 54, 0.6)',
+    '--frame-bg': '#10131e',
+    '--ink': '#e6e4ee',
+    '--ink-contrast': '#0b0e17',
+    '--hover-tint': 'rgba(255, 255, 255, 0.08)',
+    '--shadow': '0 24px 68px rgba(0, 0, 0, 0.5)',
+  },
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  light: lightTheme,
+  dark: darkTheme,
+}
+
+type ThemeOverrides = {
+  [Section in keyof Omit<Theme, 'id' | 'css'>]?: Partial<Theme[Section]>
+} & { css?: Record<string, string> }
+
+/** Builds a custom palette on top of one of the shipped themes. */
+export const defineTheme = (base: Theme, overrides: ThemeOverrides): Theme => ({
+  id: base.id,
+  scene: { ...base.scene, ...overrides.scene },
+  particles: { ...base.particles, ...overrides.particles },
+  labels: { ...base.labels, ...overrides.labels },
+  lights: { ...base.lights, ...overrides.lights },
+  nodes: { ...base.nodes, ...overrides.nodes },
+  lines: { ...base.lines, ...overrides.lines },
+  css: { ...base.css, ...overrides.css },
+})
+
+export const THEME_PREFERENCES: { id: ThemePreference; label: string }[] = [
+  { id: 'system', label: 'Auto' },
+  { id: 'light', label: 'Light' },
+  { id: 'dark', label: 'Dark' },
+]
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  value === 'light' || value === 'dark' || value === 'system'
@@ -4,14 +4,56 @@ export interface Vec3 {
   z: number
 }
 
+export type SiteLinkKind = 'uses' | 'depends' | 'related'
+
+export interface SiteLink {
+  to: string
+  kind: SiteLinkKind
+}
+
+export type SiteEmbedMode = 'iframe' | 'card' | 'newtab'
+
+/** How the camera flies in when a site is focused; unset fields keep the scene's defaults. */
+export interface FocusTransition {
+  durationMs?: number
+  /** A gsap ease name such as `expo.inOut` or `power2.out`. */
+  ease?: string
+  /** How far from the site the camera stops. */
+  distance?: number
+}
+
+export interface EnvironmentTag {
+  name: string
+  production: boolean
+  /** Set when the active environment has no URL for the site, so it links to production instead. */
+  fallback?: boolean
+}
+
 export interface SiteNode {
   id: string
   name: string
   url: string
   color: number
+  customColor?: boolean
   position: Vec3
+  /** Set when the position comes from the seed rather than the generated orbit. */
+  pinned?: boolean
+  /** The environment `url` points into, set when the catalog has more than one. */
+  environment?: EnvironmentTag
   category: string
   description?: string
+  /** Shown under the name on the node's label. */
+  caption?: string
+  links?: SiteLink[]
+  healthUrl?: string
+  embed?: SiteEmbedMode
+  screenshot?: string
+  tags?: string[]
+  focus?: FocusTransition
+  /** Set on the children of a system; their ids start with this one. */
+  parentId?: string
+  /** Full ids of this system's children, in manifest order. */
+  childIds?: string[]
 }
 
 export interface HoverState {
@@ -19,3 +61,17 @@ export interface HoverState {
   x: number
   y: number
 }
+
+export interface CameraLimits {
+  minDistance: number
+  maxDistance: number
+}
+
+/** Where the camera sits and the point it orbits around. */
+export interface CameraView {
+  position: Vec3
+  target: Vec3
+}
+
+/** A camera move that is not a focus: a tour stop at a site, or a saved view. */
+export type CameraShot = { kind: 'site'; site: SiteNode } | { kind: 'view'; view: CameraView }
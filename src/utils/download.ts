@@ -0,0 +1,10 @@
+export const downloadJson = (fileName: string, data: unknown): void => {
+  const blob = new Blob([`${JSON.stringify(data, null, 2)}\n`], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoke on the next task so the browser has started the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,47 @@
+const BLOCKED_STORAGE_KEY = 'orbnav:blocked-frames'
+
+/** `unknown` when the frame's document could not be read. */
+export type FrameVerdict = 'blocked' | 'allowed' | 'unknown'
+
+/**
+ * Check run after an iframe fires `load`, which browsers fire even for frames
+ * refused by X-Frame-Options or CSP frame-ancestors. Firefox and Safari leave a
+ * refused frame on an empty same-origin document, which is readable here; a
+ * readable document with content loaded fine. Anything else is cross-origin, a
+ * healthy page and Chromium's error page alike, and is shown as loaded; the load
+ * timeout still catches frames that never arrive.
+ */
+export const inspectLoadedFrame = (frame: HTMLIFrameElement): FrameVerdict => {
+  try {
+    const document = frame.contentDocument
+    if (!document) {
+      return 'unknown'
+    }
+    const href = document.location?.href ?? ''
+    const isBlank = href === '' || href === 'about:blank' || href.startsWith('chrome-error:')
+    return isBlank && (document.body?.childElementCount ?? 0) === 0 ? 'blocked' : 'allowed'
+  } catch {
+    return 'unknown'
+  }
+}
+
+const readBlocked = (): string[] => {
+  try {
+    const parsed: unknown = JSON.parse(window.sessionStorage.getItem(BLOCKED_STORAGE_KEY) ?? '[]')
+    return Array.isArray(parsed) ? parsed.filter((item) => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+export const wasFrameBlocked = (url: string): boolean => readBlocked().includes(url)
+
+export const rememberFrameBlocked = (url: string): void => {
+  try {
+    const blocked = new Set(readBlocked())
+    blocked.add(url)
+    window.sessionStorage.setItem(BLOCKED_STORAGE_KEY, JSON.stringify([...blocked]))
+  } catch {
+    // Session storage is optional; detection simply runs again next time.
+  }
+}
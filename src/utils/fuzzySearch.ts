@@ -0,0 +1,106 @@
+import type { SiteNode } from '../types/navigation'
+
+export type SearchField = 'name' | 'id' | 'category' | 'description'
+
+export interface FuzzyMatch {
+  score: number
+  indices: number[]
+}
+
+export interface SiteSearchResult {
+  site: SiteNode
+  score: number
+  field: SearchField
+  indices: number[]
+}
+
+const FIELD_WEIGHT: Record<SearchField, number> = {
+  name: 1,
+  id: 0.9,
+  category: 0.7,
+  description: 0.5,
+}
+
+const isWordStart = (text: string, index: number): boolean => {
+  if (index === 0) {
+    return true
+  }
+  const previous = text[index - 1]
+  return /[\s\-_/.:]/.test(previous) || (/[a-z]/.test(previous) && /[A-Z]/.test(text[index]))
+}
+
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.trim().toLowerCase()
+  if (!needle) {
+    return { score: 0, indices: [] }
+  }
+
+  const haystack = text.toLowerCase()
+  const direct = haystack.indexOf(needle)
+  if (direct >= 0) {
+    const indices = Array.from({ length: needle.length }, (_, offset) => direct + offset)
+    const boundary = isWordStart(text, direct) ? 0.5 : 0
+    const prefix = direct === 0 ? 1 : 0
+    return { score: 2 + prefix + boundary + needle.length / haystack.length, indices }
+  }
+
+  const indices: number[] = []
+  let score = 0
+  let cursor = 0
+  let streak = 0
+
+  for (const char of needle) {
+    if (char === ' ') {
+      continue
+    }
+    const found = haystack.indexOf(char, cursor)
+    if (found < 0) {
+      return null
+    }
+    streak = indices.length > 0 && found === indices[indices.length - 1] + 1 ? streak + 1 : 0
+    score += 0.1 + streak * 0.15 + (isWordStart(text, found) ? 0.25 : 0)
+    score -= Math.min(found - cursor, 8) * 0.02
+    indices.push(found)
+    cursor = found + 1
+  }
+
+  return { score: score / needle.length + needle.length / (haystack.length * 4), indices }
+}
+
+export const searchSites = (sites: SiteNode[], query: string): SiteSearchResult[] => {
+  if (!query.trim()) {
+    return sites.map((site) => ({ site, score: 0, field: 'name', indices: [] }))
+  }
+
+  const results: SiteSearchResult[] = []
+
+  for (const site of sites) {
+    let best: SiteSearchResult | null = null
+    const fields: [SearchField, string | undefined][] = [
+      ['name', site.name],
+      ['id', site.id],
+      ['category', site.category],
+      ['description', site.description],
+    ]
+
+    for (const [field, value] of fields) {
+      if (!value) {
+        continue
+      }
+      const match = fuzzyMatch(query, value)
+      if (!match) {
+        continue
+      }
+      const score = match.score * FIELD_WEIGHT[field]
+      if (!best || score > best.score) {
+        best = { site, score, field, indices: match.indices }
+      }
+    }
+
+    if (best) {
+      results.push(best)
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score)
+}
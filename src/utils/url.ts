@@ -0,0 +1,7 @@
+export const hostnameOf = (url: string): string => {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
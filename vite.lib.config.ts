@@ -0,0 +1,22 @@
+import { resolve } from 'node:path'
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// Library build of `<Orbnav>` and `mount()` for embedding the galaxy in other pages.
+export default defineConfig({
+  plugins: [react()],
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    emptyOutDir: true,
+    lib: {
+      entry: resolve(import.meta.dirname, 'src/lib/index.ts'),
+      formats: ['es'],
+      fileName: 'orbnav',
+      cssFileName: 'orbnav',
+    },
+    rollupOptions: {
+      external: [/^react(-dom)?(\/.*)?$/, /^three(\/.*)?$/, 'gsap', 'yaml'],
+    },
+  },
+})